@@ -0,0 +1,390 @@
+/**
+ * Aggregations over a table: count, sum, avg, min, max and count_distinct of the
+ * matching rows, optionally grouped by one or more columns
+ *
+ * NocoDB computes what its API has an endpoint for: the row count, v1's count per
+ * value of one column and v2's whole-table aggregates. Anything else, or a server
+ * without the endpoint, is computed here from the matching rows, read page by page
+ * (only the columns involved) up to AGGREGATE_MAX_ROWS.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { AGGREGATE_MAX_ROWS, PAGE_SIZE } from "./config.js";
+import { ColumnMeta, columnRef, resolveColumn } from "./filters.js";
+import { ListParams, NocoDBClient, TableRef } from "./nocodbClient.js";
+import { NocoDBError } from "./nocodbHttp.js";
+import { fetchPage, PageFetcher } from "./pagination.js";
+import { NUMERIC_TYPES } from "./validation.js";
+
+export const AGGREGATE_OPERATORS = ["count", "sum", "avg", "min", "max", "count_distinct"] as const;
+export type AggregateOperator = typeof AGGREGATE_OPERATORS[number];
+
+export interface Aggregate {
+  op: AggregateOperator;
+  // Column read by the aggregate; a count without one counts rows
+  column?: ColumnMeta;
+  // Name of the result column
+  name: string;
+}
+
+export interface AggregateRequest {
+  groupBy: ColumnMeta[];
+  aggregates: Aggregate[];
+  // Result columns to order groups by (index into the result columns)
+  sort: { index: number; desc: boolean }[];
+  // Most groups returned
+  limit: number;
+  // where, already compiled
+  params: ListParams;
+}
+
+export interface AggregateResult {
+  columns: string[];
+  rows: unknown[][];
+  // Groups found, before the limit
+  groups: number;
+  // "nocodb": computed by NocoDB, "rows": computed here from the rows read
+  source: "nocodb" | "rows";
+  rowsRead?: number;
+  // AGGREGATE_MAX_ROWS was reached: the result only covers the rows read
+  truncated: boolean;
+}
+
+// NocoDB's aggregation types (v2 aggregate endpoint); a count of a column counts its non-empty cells
+const NOCODB_AGGREGATIONS: Record<AggregateOperator, string> = {
+  count: "count_filled",
+  sum: "sum",
+  avg: "avg",
+  min: "min",
+  max: "max",
+  count_distinct: "count_unique"
+};
+
+// Computed columns whose values can still be numbers
+const NUMERIC_RESULT_TYPES = ["Formula", "Rollup", "Lookup", "Links", "Count"];
+
+// Answers meaning the server has no such endpoint or cannot compute this aggregate: read the rows instead
+const UNSUPPORTED_STATUSES = [400, 404, 405, 422, 501];
+
+function invalid(message: string): never {
+  throw new McpError(ErrorCode.InvalidParams, message);
+}
+
+function parseAggregate(spec: any, columns: ColumnMeta[]): Aggregate {
+  if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+    invalid(`Aggregate must be an object { op, field, as }: ${JSON.stringify(spec)}`);
+  }
+  const { op, field, as } = spec;
+  if (!AGGREGATE_OPERATORS.includes(op)) {
+    invalid(`Unknown aggregate '${op}'. Supported: ${AGGREGATE_OPERATORS.join(", ")}`);
+  }
+  if (field === undefined && op !== "count") {
+    invalid(`Aggregate '${op}' needs a field`);
+  }
+  if (as !== undefined && (typeof as !== "string" || as === "")) {
+    invalid(`Invalid aggregate name: ${JSON.stringify(as)}`);
+  }
+
+  const column = field === undefined ? undefined : resolveColumn(columns, field);
+  if ((op === "sum" || op === "avg") && column?.uidt && !NUMERIC_TYPES.includes(column.uidt) && !NUMERIC_RESULT_TYPES.includes(column.uidt)) {
+    invalid(`Aggregate '${op}' needs a numeric column; '${column.title}' is ${column.uidt}`);
+  }
+  return { op, column, name: as ?? (column ? `${op}_${column.title}` : op) };
+}
+
+/**
+ * Check the groupBy, aggregates, sort and limit arguments against the table columns
+ */
+export function aggregateRequest(
+  args: { groupBy?: unknown; aggregates?: unknown; sort?: unknown; limit?: unknown },
+  columns: ColumnMeta[],
+  params: ListParams
+): AggregateRequest {
+  if (args.groupBy !== undefined && !Array.isArray(args.groupBy)) {
+    invalid("groupBy must be an array of column names");
+  }
+  const groupBy = ((args.groupBy as unknown[] | undefined) || []).map((field) => resolveColumn(columns, field));
+
+  const specs = args.aggregates ?? [{ op: "count" }];
+  if (!Array.isArray(specs) || specs.length === 0) {
+    invalid("aggregates must be a non-empty array of { op, field, as }");
+  }
+  const aggregates = specs.map((spec) => parseAggregate(spec, columns));
+
+  const names = [...groupBy.map((column) => column.title), ...aggregates.map((aggregate) => aggregate.name)];
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    invalid(`Result column '${duplicate}' appears twice; name the aggregates apart with 'as'`);
+  }
+
+  const limit = args.limit === undefined ? PAGE_SIZE : Number(args.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    invalid(`limit must be a positive integer, got ${JSON.stringify(args.limit)}`);
+  }
+
+  return { groupBy, aggregates, sort: compileResultSort(args.sort, names), limit, params };
+}
+
+/**
+ * Sort specs (`[{ field, direction }]` or `"-name"` strings) over the result columns.
+ * Groups are ordered by the groupBy columns when none is given
+ */
+function compileResultSort(sort: unknown, names: string[]): AggregateRequest["sort"] {
+  if (sort === undefined || sort === null) {
+    return [];
+  }
+  const specs = Array.isArray(sort) ? sort : [sort];
+  return specs.map((spec: any) => {
+    const desc = typeof spec === "string" ? spec.startsWith("-") : spec?.direction === "desc";
+    const field = typeof spec === "string" ? spec.replace(/^-/, "") : spec?.field;
+    if (typeof spec !== "string" && spec?.direction !== undefined && spec.direction !== "asc" && spec.direction !== "desc") {
+      invalid(`Invalid sort direction '${spec.direction}' (expected asc or desc)`);
+    }
+    const index = names.findIndex((name) => typeof field === "string" && name.toLowerCase() === field.toLowerCase());
+    if (index < 0) {
+      invalid(`Cannot sort by '${field}'. Result columns: ${names.join(", ")}`);
+    }
+    return { index, desc };
+  });
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function numeric(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * Order of two cells: numbers by value, anything else as text, empty cells first
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (isEmpty(a) || isEmpty(b)) {
+    return Number(!isEmpty(a)) - Number(!isEmpty(b));
+  }
+  const x = numeric(a);
+  const y = numeric(b);
+  if (x !== undefined && y !== undefined) {
+    return x - y;
+  }
+  const s = typeof a === "object" ? JSON.stringify(a) : String(a);
+  const t = typeof b === "object" ? JSON.stringify(b) : String(b);
+  return s < t ? -1 : s > t ? 1 : 0;
+}
+
+interface Accumulator {
+  count: number;
+  sum: number;
+  min?: unknown;
+  max?: unknown;
+  distinct: Set<string>;
+}
+
+function accumulate(aggregate: Aggregate, acc: Accumulator, row: any) {
+  if (!aggregate.column) {
+    acc.count++;
+    return;
+  }
+  const value = row[aggregate.column.title];
+  if (isEmpty(value)) {
+    return;
+  }
+  switch (aggregate.op) {
+    case "sum":
+    case "avg": {
+      const number = numeric(value);
+      if (number !== undefined) {
+        acc.sum += number;
+        acc.count++;
+      }
+      return;
+    }
+    case "min":
+      if (acc.min === undefined || compareValues(value, acc.min) < 0) acc.min = value;
+      return;
+    case "max":
+      if (acc.max === undefined || compareValues(value, acc.max) > 0) acc.max = value;
+      return;
+    case "count_distinct":
+      acc.distinct.add(typeof value === "object" ? JSON.stringify(value) : String(value));
+      return;
+    default:
+      acc.count++;
+  }
+}
+
+// Sums of decimals drift (0.1 + 0.2); 15 significant digits is what a double holds exactly
+function roundSum(value: number): number {
+  return Number(value.toPrecision(15));
+}
+
+function finish(aggregate: Aggregate, acc: Accumulator): unknown {
+  switch (aggregate.op) {
+    case "sum":
+      return acc.count > 0 ? roundSum(acc.sum) : null;
+    case "avg":
+      return acc.count > 0 ? roundSum(acc.sum / acc.count) : null;
+    case "min":
+      return acc.min ?? null;
+    case "max":
+      return acc.max ?? null;
+    case "count_distinct":
+      return acc.distinct.size;
+    default:
+      return acc.count;
+  }
+}
+
+function resultColumns(request: AggregateRequest): string[] {
+  return [...request.groupBy.map((column) => column.title), ...request.aggregates.map((aggregate) => aggregate.name)];
+}
+
+/**
+ * Read the matching rows page by page and aggregate them here
+ */
+async function computeFromRows(client: NocoDBClient, ref: TableRef, request: AggregateRequest): Promise<AggregateResult> {
+  const { groupBy, aggregates } = request;
+  const fields = new Set([...groupBy, ...aggregates.flatMap((aggregate) => aggregate.column ? [aggregate.column] : [])].map(columnRef));
+  const params: ListParams = fields.size > 0 ? { ...request.params, fields: [...fields].join(",") } : request.params;
+  const fetcher: PageFetcher = (offset, limit) => client.listRecords(ref, { ...params, offset, limit });
+
+  const groups = new Map<string, { values: unknown[]; accumulators: Accumulator[] }>();
+  const group = (values: unknown[]) => {
+    const key = JSON.stringify(values);
+    let entry = groups.get(key);
+    if (!entry) {
+      entry = { values, accumulators: aggregates.map(() => ({ count: 0, sum: 0, distinct: new Set<string>() })) };
+      groups.set(key, entry);
+    }
+    return entry;
+  };
+
+  let rowsRead = 0;
+  let truncated = false;
+  while (true) {
+    const page = await fetchPage(fetcher, rowsRead, Math.min(PAGE_SIZE, AGGREGATE_MAX_ROWS - rowsRead));
+    for (const row of page.list) {
+      const entry = group(groupBy.map((column) => row[column.title] ?? null));
+      aggregates.forEach((aggregate, index) => accumulate(aggregate, entry.accumulators[index], row));
+    }
+    rowsRead += page.list.length;
+    if (!page.nextCursor || page.list.length === 0) break;
+    if (rowsRead >= AGGREGATE_MAX_ROWS) {
+      truncated = true;
+      break;
+    }
+  }
+
+  // Without groupBy there is always one result row, even over no rows
+  if (groupBy.length === 0 && groups.size === 0) {
+    group([]);
+  }
+
+  const rows = [...groups.values()].map((entry) => [
+    ...entry.values,
+    ...aggregates.map((aggregate, index) => finish(aggregate, entry.accumulators[index]))
+  ]);
+  return { columns: resultColumns(request), rows, groups: rows.length, source: "rows", rowsRead, truncated };
+}
+
+/**
+ * Rows matching the where clause, from the list endpoint's pageInfo
+ */
+async function countRows(client: NocoDBClient, ref: TableRef, params: ListParams): Promise<number | undefined> {
+  const page = await client.listRecords(ref, { ...params, offset: 0, limit: 1 });
+  const total = page?.pageInfo?.totalRows;
+  return typeof total === "number" ? total : undefined;
+}
+
+/**
+ * Let NocoDB compute the result when one of its endpoints can; undefined when none can
+ */
+async function computeInNocoDB(client: NocoDBClient, ref: TableRef, request: AggregateRequest): Promise<AggregateResult | undefined> {
+  const { groupBy, aggregates, params } = request;
+  const countsRows = (aggregate: Aggregate) => aggregate.op === "count" && !aggregate.column;
+  const answer = (rows: unknown[][]): AggregateResult => ({
+    columns: resultColumns(request), rows, groups: rows.length, source: "nocodb", truncated: false
+  });
+
+  if (groupBy.length === 0 && aggregates.every(countsRows)) {
+    const total = await countRows(client, ref, params);
+    return total === undefined ? undefined : answer([aggregates.map(() => total)]);
+  }
+
+  if (groupBy.length === 0 && client.aggregate) {
+    const onColumns = aggregates.filter((aggregate) => aggregate.column);
+    const ids = onColumns.map((aggregate) => aggregate.column?.id);
+    // NocoDB answers one value per column, keyed by its title
+    if (ids.some((id) => !id) || new Set(ids).size !== ids.length) {
+      return undefined;
+    }
+    const values = await client.aggregate(ref, onColumns.map((aggregate) => ({
+      field: String(aggregate.column?.id),
+      type: NOCODB_AGGREGATIONS[aggregate.op]
+    })), params);
+    if (!values || onColumns.some((aggregate) => !(String(aggregate.column?.title) in values))) {
+      return undefined;
+    }
+    const total = aggregates.some(countsRows) ? await countRows(client, ref, params) : 0;
+    if (total === undefined) {
+      return undefined;
+    }
+    return answer([aggregates.map((aggregate) => aggregate.column ? values[aggregate.column.title] ?? null : total)]);
+  }
+
+  if (groupBy.length === 1 && client.groupBy && aggregates.every(countsRows)) {
+    const [column] = groupBy;
+    const fetcher: PageFetcher = (offset, limit) => client.groupBy!(ref, column.title, { ...params, offset, limit });
+    const rows: unknown[][] = [];
+    while (true) {
+      const page = await fetchPage(fetcher, rows.length, PAGE_SIZE);
+      for (const entry of page.list) {
+        if (!entry || typeof entry !== "object" || !("count" in entry)) {
+          return undefined;
+        }
+        const value = entry[column.title] ?? (column.column_name ? entry[column.column_name] : undefined) ?? null;
+        rows.push([value, ...aggregates.map(() => Number(entry.count))]);
+      }
+      if (!page.nextCursor || page.list.length === 0) break;
+    }
+    return answer(rows);
+  }
+
+  return undefined;
+}
+
+/**
+ * Order the result rows (by the groupBy columns unless sort says otherwise) and keep the first `limit`
+ */
+function arrange(result: AggregateResult, request: AggregateRequest): AggregateResult {
+  const sort = request.sort.length > 0 ? request.sort : request.groupBy.map((_, index) => ({ index, desc: false }));
+  const rows = [...result.rows].sort((a, b) => {
+    for (const { index, desc } of sort) {
+      const order = compareValues(a[index], b[index]);
+      if (order !== 0) return desc ? -order : order;
+    }
+    return 0;
+  });
+  return { ...result, rows: rows.slice(0, request.limit) };
+}
+
+/**
+ * Aggregate a table: in NocoDB when it can, otherwise from the rows read page by page
+ */
+export async function aggregateTable(client: NocoDBClient, ref: TableRef, request: AggregateRequest): Promise<AggregateResult> {
+  let result: AggregateResult | undefined;
+  try {
+    result = await computeInNocoDB(client, ref, request);
+  } catch (error) {
+    if (!(error instanceof NocoDBError) || !UNSUPPORTED_STATUSES.includes(error.status ?? 0)) {
+      throw error;
+    }
+  }
+  return arrange(result ?? await computeFromRows(client, ref, request), request);
+}
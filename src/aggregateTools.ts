@@ -0,0 +1,97 @@
+/**
+ * Aggregation tool: counts, sums, averages, minimums, maximums and distinct
+ * counts per group of rows, returned as a small table (see aggregate.ts)
+ */
+import { AGGREGATE_MAX_ROWS } from "./config.js";
+import { AGGREGATE_OPERATORS, aggregateRequest, aggregateTable } from "./aggregate.js";
+import { markdownCell } from "./export.js";
+import { compileWhere, QUERY_SCHEMA_PROPERTIES } from "./filters.js";
+import { TABLE_PROPERTIES, ToolContext, ToolDefinition } from "./registry.js";
+
+/**
+ * Aggregation tools, registered by NocoDBServer
+ */
+export function aggregateTools(ctx: ToolContext): ToolDefinition[] {
+  return [
+    {
+      name: "aggregate_table",
+      description:
+        "Aggregate the rows of a table, optionally grouped by columns: count, sum, avg, min, max and count_distinct, " +
+        "e.g. total sales by region with groupBy ['Region'] and aggregates [{ op: 'sum', field: 'Amount' }]. " +
+        "Use this instead of reading rows with query_table and adding them up",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          groupBy: {
+            type: "array",
+            description: "Columns to group rows by (optional; without it the whole table is one group)",
+            items: { type: "string" }
+          },
+          aggregates: {
+            type: "array",
+            description:
+              "Aggregates to compute per group (optional, default [{ op: 'count' }]). " +
+              "count without a field counts rows, with a field its non-empty cells; sum and avg need a numeric column. " +
+              "Result columns are named <op>_<field> unless 'as' is given",
+            items: {
+              type: "object",
+              properties: {
+                op: { type: "string", enum: [...AGGREGATE_OPERATORS] },
+                field: { type: "string" },
+                as: { type: "string" }
+              },
+              required: ["op"]
+            }
+          },
+          filters: QUERY_SCHEMA_PROPERTIES.filters,
+          sort: {
+            type: "array",
+            description: "Order of the groups by result column (groupBy column or aggregate name), e.g. [{ field: 'sum_Amount', direction: 'desc' }] (optional, default the groupBy columns)",
+            items: {
+              type: "object",
+              properties: {
+                field: { type: "string" },
+                direction: { type: "string", enum: ["asc", "desc"] }
+              },
+              required: ["field"]
+            }
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of groups to return (optional)"
+          }
+        },
+        required: ["projectId", "tableName"]
+      },
+      handler: async (args) => {
+        const client = await ctx.getClient();
+        const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+        const columns = table.columns || [];
+        const where = compileWhere(args.filters, columns);
+        const request = aggregateRequest(args, columns, where ? { where } : {});
+        const result = await aggregateTable(client, ref, request);
+
+        const notes = [
+          `${table.title}: ${result.rows.length} of ${result.groups} group(s)`,
+          result.source === "nocodb" ? "computed by NocoDB" : `computed from ${result.rowsRead} row(s)`
+        ];
+        if (result.truncated) {
+          notes.push(`partial: stopped after AGGREGATE_MAX_ROWS (${AGGREGATE_MAX_ROWS}) rows, narrow it with filters`);
+        }
+        const lines = [
+          `| ${result.columns.map(markdownCell).join(" | ")} |`,
+          `|${result.columns.map(() => " --- |").join("")}`,
+          ...result.rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`)
+        ];
+        return {
+          content: [
+            { type: "text", text: notes.join(", ") },
+            { type: "text", text: lines.join("\n") }
+          ]
+        };
+      }
+    }
+  ];
+}
@@ -0,0 +1,130 @@
+/**
+ * Natural-language questions over NocoDB (POST /ask)
+ *
+ * The LLM provider gets the question and the tools the caller may use, with the
+ * same schemas MCP clients see. Each tool call it makes runs through
+ * NocoDBServer.callTool, so the policy, API key scopes and audit log apply, and the
+ * result goes back to the model until it answers or the step limit is reached.
+ */
+import { ApiKey } from "./auth.js";
+import type { Caller } from "./audit.js";
+import { ASK_MAX_STEPS } from "./config.js";
+import type { NocoDBServer } from "./index.js";
+import type { LlmMessage, LlmProvider, LlmToolCall } from "./llm.js";
+import { errorReason } from "./nocodbHttp.js";
+import type { ToolDescription } from "./registry.js";
+
+// Longest tool result handed back to the model
+const MAX_RESULT_CHARS = 20000;
+
+const SYSTEM_PROMPT =
+  "You answer questions about data stored in NocoDB by calling the tools provided. " +
+  "Find projects, tables and columns with list_projects, list_tables and describe_table instead of guessing IDs or names. " +
+  "Compute counts, totals, averages and extremes with aggregate_table rather than from rows read with query_table. " +
+  "Only change data when the question asks for it. " +
+  "Answer concisely, in the language of the question, from the tool results.";
+
+export interface AskOptions {
+  caller?: Caller;
+  // Limits the tools to the key's scope (HTTP callers)
+  apiKey?: ApiKey;
+  // Offer read tools only
+  readOnly?: boolean;
+  // Connection used by tool calls that name none
+  connection?: string;
+  // Model turns allowed to call tools (capped by ASK_MAX_STEPS)
+  maxSteps?: number;
+}
+
+export interface AskToolCall {
+  tool: string;
+  args: unknown;
+  ok: boolean;
+  result: string;
+}
+
+export interface AskResult {
+  answer: string;
+  provider: string;
+  toolCalls: AskToolCall[];
+  // The model was still calling tools when the step limit was reached
+  stepLimitReached: boolean;
+}
+
+export class NaturalQueryClient {
+  constructor(private nocodb: NocoDBServer, private provider: LlmProvider) {}
+
+  /**
+   * Answer a question, letting the model call tools for up to `maxSteps` turns.
+   * At the limit the model is asked to answer without tools from what it has
+   */
+  async processNaturalQuery(question: string, options: AskOptions = {}): Promise<AskResult> {
+    const tools = this.nocodb.describeTools(options.apiKey)
+      .filter((tool) => !options.readOnly || this.nocodb.tools.get(tool.name)?.access === "read");
+    const maxSteps = Math.max(1, Math.min(Math.floor(Number(options.maxSteps) || ASK_MAX_STEPS), ASK_MAX_STEPS));
+    const messages: LlmMessage[] = [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: question }
+    ];
+    const toolCalls: AskToolCall[] = [];
+
+    for (let step = 0; step < maxSteps; step++) {
+      const reply = await this.provider.complete(messages, tools);
+      if (reply.toolCalls.length === 0) {
+        return { answer: reply.content ?? "", provider: this.provider.name, toolCalls, stepLimitReached: false };
+      }
+
+      messages.push({ role: "assistant", content: reply.content, toolCalls: reply.toolCalls });
+      for (const call of reply.toolCalls) {
+        const outcome = await this.runToolCall(call, tools, options);
+        toolCalls.push(outcome);
+        messages.push({ role: "tool", toolCallId: call.id, content: outcome.result });
+      }
+    }
+
+    const final = await this.provider.complete(messages, []);
+    return { answer: final.content ?? "", provider: this.provider.name, toolCalls, stepLimitReached: true };
+  }
+
+  /**
+   * Run one tool call of the model. Failures are reported back to the model, not thrown
+   */
+  private async runToolCall(call: LlmToolCall, tools: ToolDescription[], options: AskOptions): Promise<AskToolCall> {
+    const failed = (result: string): AskToolCall => ({ tool: call.name, args: call.arguments, ok: false, result: `Error: ${result}` });
+
+    const tool = this.nocodb.tools.get(call.name);
+    if (!tool || !tools.some((t) => t.name === call.name)) {
+      return failed(`Unknown tool: ${call.name}`);
+    }
+    if (!call.arguments || typeof call.arguments !== "object" || Array.isArray(call.arguments)) {
+      return failed("Tool arguments must be a JSON object");
+    }
+
+    const args: any = { ...call.arguments };
+    if (options.connection !== undefined && args.connection === undefined) {
+      args.connection = options.connection;
+    }
+    // Tools that can fit their rows to a budget do so, rather than have their text cut below
+    if (tool.inputSchema.properties?.maxChars && args.maxChars === undefined && args.maxTokens === undefined) {
+      args.maxChars = MAX_RESULT_CHARS;
+    }
+    const target = await this.nocodb.resolveTarget(args, tool);
+    const denied = options.apiKey ? await this.nocodb.checkAccess(options.apiKey, tool, target) : undefined;
+    if (denied) {
+      return failed(`Forbidden: ${denied}`);
+    }
+
+    try {
+      const result = await this.nocodb.callTool(tool.name, target, options.caller);
+      const text = result.content.map((c) => c.text).join("\n");
+      return {
+        tool: tool.name,
+        args,
+        ok: !result.isError,
+        result: text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}\n... (truncated)` : text
+      };
+    } catch (error: any) {
+      return failed(errorReason(error));
+    }
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Audit log of mutating tool calls
+ *
+ * Every call to a write tool is appended to AUDIT_LOG_FILE (one JSON entry per
+ * line) with its arguments, the caller, the outcome and, for record writes,
+ * before/after snapshots of the rows it touched. The snapshots are what
+ * undo_mutation restores from. The rows are read again after a write; when that
+ * read fails the write still succeeds, and its entry says why it has no snapshots.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { AUDIT_LOG_FILE, BULK_CHUNK_SIZE } from "./config.js";
+import { compileWhere } from "./filters.js";
+import { NocoDBClient, primaryKeyOf, TableMeta, TableRef } from "./nocodbClient.js";
+import { errorReason } from "./nocodbHttp.js";
+import type { ToolDefinition, ToolResult } from "./registry.js";
+
+/**
+ * Who made a call: the transport it came in on, the API key name and the MCP session, when known
+ */
+export interface Caller {
+  transport: "stdio" | "sse" | "http" | "command";
+  apiKey?: string;
+  session?: string;
+}
+
+/**
+ * One row touched by a call. `before` is null for an inserted row, `after` for a deleted one
+ */
+export interface RowChange {
+  recordId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  args: any;
+  caller: Caller;
+  status: "ok" | "error";
+  error?: string;
+  table?: TableRef;
+  changes: RowChange[];
+  // Why the rows could not be read after the write: the changes are missing or incomplete
+  snapshotError?: string;
+}
+
+interface CallState {
+  table?: TableRef;
+  changes: RowChange[];
+  snapshotError?: string;
+}
+
+export class AuditLog {
+  private calls = new AsyncLocalStorage<CallState>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private file = AUDIT_LOG_FILE) {}
+
+  /**
+   * Run a tool call and append its entry. Read tools and dry runs are run as is
+   */
+  async track(tool: ToolDefinition, args: any, caller: Caller, run: () => Promise<ToolResult>): Promise<ToolResult> {
+    if (tool.access !== "write" || (tool.supportsDryRun && args?.dryRun === true)) {
+      return run();
+    }
+
+    const state: CallState = { changes: [] };
+    const entry = (status: AuditEntry["status"], error?: string): AuditEntry => ({
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      tool: tool.name,
+      args,
+      caller,
+      status,
+      ...(error !== undefined ? { error } : {}),
+      ...(state.table ? { table: state.table } : {}),
+      changes: state.changes,
+      ...(state.snapshotError !== undefined ? { snapshotError: state.snapshotError } : {})
+    });
+
+    try {
+      const result = await this.calls.run(state, run);
+      await this.append(entry(result.isError ? "error" : "ok", result.isError ? result.content?.[0]?.text : undefined));
+      return result;
+    } catch (error: any) {
+      await this.append(entry("error", errorReason(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Record rows changed by the tool call in progress (no-op outside a tracked call)
+   */
+  record(table: TableRef, changes: RowChange[]) {
+    const state = this.calls.getStore();
+    if (state) {
+      state.table = table;
+      state.changes.push(...changes);
+    }
+  }
+
+  /**
+   * Record rows written by the call in progress, as `read` finds them after the write. A failed read
+   * does not fail the call, which has already written: its entry keeps the reason instead
+   */
+  async recordAfterWrite(table: TableRef, read: () => Promise<RowChange[]>): Promise<void> {
+    const state = this.calls.getStore();
+    if (!state) {
+      return;
+    }
+    try {
+      this.record(table, await read());
+    } catch (error) {
+      state.table = table;
+      state.snapshotError = errorReason(error);
+    }
+  }
+
+  /**
+   * All entries, oldest first
+   */
+  async entries(): Promise<AuditEntry[]> {
+    await this.writing;
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.file, "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return raw.split("\n").filter((line) => line.trim()).map((line) => JSON.parse(line));
+  }
+
+  /**
+   * Append an entry; writes are queued so lines never interleave. A failed write
+   * is logged but does not fail the call, which has already changed the data
+   */
+  private append(entry: AuditEntry): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(path.resolve(this.file)), { recursive: true });
+        await fs.promises.appendFile(this.file, JSON.stringify(entry) + "\n", "utf-8");
+      } catch (error: any) {
+        console.error(`Erro ao gravar o log de auditoria ${this.file}:`, error);
+      }
+    });
+    return this.writing;
+  }
+}
+
+/**
+ * Current rows of a table by primary key, read in chunks (missing rows are absent from the map)
+ */
+export async function snapshotRows(client: NocoDBClient, table: TableMeta, ref: TableRef, ids: unknown[]): Promise<Map<string, any>> {
+  const pk = primaryKeyOf(table);
+  const rows = new Map<string, any>();
+  const wanted = [...new Set(ids.filter((id) => id !== undefined && id !== null).map(String))];
+
+  for (let start = 0; start < wanted.length; start += BULK_CHUNK_SIZE) {
+    const chunk = wanted.slice(start, start + BULK_CHUNK_SIZE);
+    const where = compileWhere({ field: pk, op: "in", value: chunk }, table.columns || []);
+    const page = await client.listRecords(ref, { where, limit: chunk.length });
+    for (const row of page.list || []) {
+      rows.set(String(row[pk]), row);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Pair the rows read before and after a write into changes, skipping rows the write did not touch
+ */
+export function rowChanges(ids: unknown[], before: Map<string, any>, after: Map<string, any>): RowChange[] {
+  return [...new Set(ids.filter((id) => id !== undefined && id !== null).map(String))]
+    .filter((id) => before.has(id) || after.has(id))
+    .map((id) => ({ recordId: id, before: before.get(id) ?? null, after: after.get(id) ?? null }));
+}
@@ -0,0 +1,249 @@
+/**
+ * Audit tools: list the logged write calls of a table and undo one of them
+ *
+ * Undo works from the row snapshots of the entry: updated rows get their
+ * before-image back, deleted rows are re-inserted and inserted rows removed.
+ * When records changed again since the entry, nothing is undone unless `force`
+ * is set. The undo is itself a logged write, so it can be undone.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { AuditEntry, RowChange, snapshotRows } from "./audit.js";
+import { errorReason } from "./nocodbHttp.js";
+import { primaryKeyOf, TableMeta, TableRef } from "./nocodbClient.js";
+import { encodeCursor, pageWindow } from "./pagination.js";
+import { writableFields } from "./preview.js";
+import { TABLE_PROPERTIES, textResult, ToolContext, ToolDefinition, toolFailure } from "./registry.js";
+
+type UndoStatus = "restored" | "reinserted" | "deleted" | "failed";
+
+interface UndoResult {
+  recordId: string;
+  status: UndoStatus;
+  newId?: unknown;
+  error?: string;
+}
+
+/**
+ * Whether an entry was logged for this table of this connection (by table ID, or by
+ * the arguments of calls that failed before resolving it)
+ */
+function isForTable(entry: AuditEntry, connection: string, table: TableMeta, ref: TableRef) {
+  if (entry.args?.connection !== undefined && entry.args.connection !== connection) {
+    return false;
+  }
+  if (entry.table) {
+    return entry.table.tableId === table.id;
+  }
+  return entry.args?.projectId === ref.baseId && entry.args?.tableName === table.title;
+}
+
+/**
+ * Successful undo of each entry: entry ID -> ID of the undo entry
+ */
+function undoneBy(entries: AuditEntry[]): Map<string, string> {
+  const undone = new Map<string, string>();
+  for (const entry of entries) {
+    if (entry.tool === "undo_mutation" && entry.status === "ok" && entry.args?.entryId) {
+      undone.set(entry.args.entryId, entry.id);
+    }
+  }
+  return undone;
+}
+
+/**
+ * Why a row cannot be undone safely, if it changed after the entry
+ */
+function conflictOf(table: TableMeta, change: RowChange, current: Record<string, unknown> | undefined): string | undefined {
+  if (!change.after) {
+    return current ? "the deleted record exists again" : undefined;
+  }
+  if (!current) {
+    return "the record was deleted since";
+  }
+  const after = writableFields(table, change.after, false);
+  const now = writableFields(table, current, false);
+  const changed = Object.keys(after).filter((key) => JSON.stringify(after[key]) !== JSON.stringify(now[key]));
+  return changed.length > 0 ? `changed since: ${changed.join(", ")}` : undefined;
+}
+
+/**
+ * Audit tools, registered by NocoDBServer
+ */
+export function auditTools(ctx: ToolContext): ToolDefinition[] {
+  return [
+    {
+      name: "list_audit_entries",
+      description: "List the logged write calls on a table, newest first: tool, arguments, caller, time, outcome and the records touched",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          tool: {
+            type: "string",
+            description: "Only entries of this tool (optional)"
+          },
+          recordId: {
+            type: "string",
+            description: "Only entries that touched this record (optional)"
+          },
+          details: {
+            type: "boolean",
+            description: "Include the call arguments and the before/after row snapshots (optional, default false)"
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of entries to return (optional)"
+          },
+          cursor: {
+            type: "string",
+            description: "nextCursor from a previous result, to read the following page (optional)"
+          },
+          offset: {
+            type: "number",
+            description: "Number of entries to skip (optional)"
+          }
+        },
+        required: ["projectId", "tableName"]
+      },
+      handler: async (args) => {
+        try {
+          const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+          const entries = await ctx.audit.entries();
+          const undone = undoneBy(entries);
+
+          const matching = entries
+            .filter((entry) => isForTable(entry, args.connection, table, ref))
+            .filter((entry) => !args.tool || entry.tool === args.tool)
+            .filter((entry) => args.recordId === undefined || entry.changes.some((c) => c.recordId === String(args.recordId)))
+            .reverse();
+
+          const { offset, limit } = pageWindow(args);
+          const list = matching.slice(offset, offset + limit).map((entry) => ({
+            id: entry.id,
+            timestamp: entry.timestamp,
+            tool: entry.tool,
+            caller: entry.caller,
+            status: entry.status,
+            error: entry.error,
+            snapshotError: entry.snapshotError,
+            recordIds: entry.changes.map((c) => c.recordId),
+            undoneBy: undone.get(entry.id),
+            ...(args.details ? { args: entry.args, changes: entry.changes } : {})
+          }));
+
+          return textResult(JSON.stringify({
+            list,
+            totalEntries: matching.length,
+            nextCursor: offset + limit < matching.length ? encodeCursor({ offset: offset + limit, limit }) : undefined
+          }, null, 2));
+        } catch (error: any) {
+          toolFailure("list audit entries", error);
+        }
+      }
+    },
+    {
+      name: "undo_mutation",
+      description:
+        "Undo a logged write on a table (see list_audit_entries): updated records get their previous values back, " +
+        "deleted records are re-inserted and inserted records deleted. Refuses, changing nothing, when records changed again since, unless force is set",
+      access: "write",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          entryId: {
+            type: "string",
+            description: "ID of the audit entry to undo"
+          },
+          force: {
+            type: "boolean",
+            description: "Undo even if records changed since the entry, overwriting those changes (optional, default false)"
+          }
+        },
+        required: ["projectId", "tableName", "entryId"]
+      },
+      handler: async (args) => {
+        try {
+          const client = await ctx.getClient();
+          const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+          const entries = await ctx.audit.entries();
+          const entry = entries.find((e) => e.id === args.entryId);
+
+          if (!entry || !isForTable(entry, args.connection, table, ref)) {
+            throw new McpError(ErrorCode.InvalidParams, `No audit entry ${args.entryId} for table ${table.title}`);
+          }
+          if (entry.snapshotError !== undefined) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Audit entry ${entry.id} (${entry.tool}) has no complete snapshots of the rows it wrote (${entry.snapshotError}), it cannot be undone`
+            );
+          }
+          if (entry.changes.length === 0) {
+            throw new McpError(ErrorCode.InvalidParams, `Audit entry ${entry.id} (${entry.tool}) changed no records, there is nothing to undo`);
+          }
+          const undone = undoneBy(entries).get(entry.id);
+          if (undone) {
+            throw new McpError(ErrorCode.InvalidParams, `Audit entry ${entry.id} was already undone by ${undone}`);
+          }
+
+          const pk = primaryKeyOf(table);
+          const current = await snapshotRows(client, table, ref, entry.changes.map((c) => c.recordId));
+          const conflicts = entry.changes
+            .map((change) => ({ recordId: change.recordId, conflict: conflictOf(table, change, current.get(change.recordId)) }))
+            .filter(({ conflict }) => conflict);
+          if (conflicts.length > 0 && !args.force) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Records changed since audit entry ${entry.id}, nothing was undone (set force to overwrite): ` +
+                conflicts.map(({ recordId, conflict }) => `${recordId} (${conflict})`).join("; ")
+            );
+          }
+
+          const results: UndoResult[] = [];
+          const touched: { recordId: string; before: Record<string, unknown> | null }[] = [];
+
+          // Latest change first, so a row changed twice ends up as it was before the first change
+          for (const change of [...entry.changes].reverse()) {
+            const { recordId } = change;
+            try {
+              if (change.before && change.after) {
+                await client.updateRecord(ref, recordId, writableFields(table, change.before, false));
+                results.push({ recordId, status: "restored" });
+                touched.push({ recordId, before: current.get(recordId) ?? null });
+              } else if (change.before) {
+                const record = await client.insertRecord(ref, writableFields(table, change.before, true));
+                const newId = record?.[pk] ?? record?.id ?? record?.Id;
+                results.push({ recordId, status: "reinserted", ...(String(newId) !== recordId ? { newId } : {}) });
+                touched.push({ recordId: String(newId), before: null });
+              } else {
+                await client.deleteRecord(ref, recordId);
+                results.push({ recordId, status: "deleted" });
+                touched.push({ recordId, before: current.get(recordId) ?? null });
+              }
+            } catch (error: any) {
+              results.push({ recordId, status: "failed", error: errorReason(error) });
+            }
+          }
+
+          await ctx.audit.recordAfterWrite(ref, async () => {
+            const after = await snapshotRows(client, table, ref, touched.map((t) => t.recordId));
+            return touched.map(({ recordId, before }) => ({ recordId, before, after: after.get(recordId) ?? null }));
+          });
+
+          const failed = results.filter((r) => r.status === "failed").length;
+          return {
+            content: [{
+              type: "text",
+              text: `Undo of ${entry.tool} (${entry.id}): ${results.length - failed} of ${results.length} record(s) undone, ${failed} failed.\n` +
+                JSON.stringify(results, null, 2)
+            }],
+            ...(failed > 0 ? { isError: true } : {})
+          };
+        } catch (error: any) {
+          toolFailure("undo mutation", error);
+        }
+      }
+    }
+  ];
+}
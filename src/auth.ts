@@ -0,0 +1,138 @@
+/**
+ * Bearer API-key authentication and per-key scopes for the HTTP surface
+ *
+ * Keys come from API_KEYS (inline JSON) or API_KEYS_FILE (path to a JSON file):
+ *
+ *   [{ "name": "gpt", "key": "secret", "tools": ["query_table"], "readOnly": true,
+ *      "projects": ["p_xxx"], "tables": ["Clientes"] }]
+ *
+ * Omitted scope fields mean "no restriction". When no key is configured,
+ * authentication is disabled and the manifest advertises `auth: none`.
+ */
+import * as fs from "fs";
+import { NextFunction, Request, Response } from "express";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { API_KEYS, API_KEYS_FILE } from "./config.js";
+import { ToolDefinition } from "./registry.js";
+
+/**
+ * An API key and what it may do
+ */
+export interface ApiKey {
+  name: string;
+  key: string;
+  tools?: string[];
+  readOnly?: boolean;
+  projects?: string[];
+  tables?: string[];
+}
+
+/**
+ * Read the configured API keys (empty list = authentication disabled)
+ */
+export function loadApiKeys(): ApiKey[] {
+  let raw = API_KEYS;
+  if (!raw && API_KEYS_FILE) {
+    raw = fs.readFileSync(API_KEYS_FILE, "utf-8");
+  }
+  if (!raw) {
+    return [];
+  }
+
+  const parsed = JSON.parse(raw);
+  const keys: ApiKey[] = Array.isArray(parsed) ? parsed : parsed.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error("API keys config must be an array of keys (or { \"keys\": [...] })");
+  }
+
+  for (const [index, key] of keys.entries()) {
+    if (!key || typeof key.key !== "string" || key.key.length === 0) {
+      throw new Error(`API key #${index} has no "key"`);
+    }
+    key.name = key.name || `key-${index}`;
+  }
+  return keys;
+}
+
+/**
+ * A project and table a call reaches (resolved to the project ID and table title)
+ */
+export interface ScopeTarget {
+  projectId?: string;
+  tableName?: string;
+}
+
+/**
+ * Check a project and table against a key's project and table limits. Returns the reason when it is not allowed
+ */
+export function checkTarget(apiKey: ApiKey, target: ScopeTarget): string | undefined {
+  if (apiKey.projects && target.projectId !== undefined && !apiKey.projects.includes(String(target.projectId))) {
+    return `API key '${apiKey.name}' may not access project ${target.projectId}`;
+  }
+  // A table whose project is not known could be in any project
+  if (apiKey.projects && target.projectId === undefined && target.tableName !== undefined) {
+    return `API key '${apiKey.name}' may not access table ${target.tableName} (its project is unknown)`;
+  }
+  if (apiKey.tables && target.tableName !== undefined && !apiKey.tables.includes(String(target.tableName))) {
+    return `API key '${apiKey.name}' may not access table ${target.tableName}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check a tool call against a key's scope: the tool, its project and table, and the
+ * tables it reads or links through relations (`linked`). Returns the reason when it is not allowed
+ */
+export function checkScope(apiKey: ApiKey, tool: ToolDefinition, args: any, linked: ScopeTarget[] = []): string | undefined {
+  if (apiKey.tools && !apiKey.tools.includes("*") && !apiKey.tools.includes(tool.name)) {
+    return `API key '${apiKey.name}' may not use tool ${tool.name}`;
+  }
+  if (apiKey.readOnly && tool.access === "write") {
+    return `API key '${apiKey.name}' is read-only; ${tool.name} changes data`;
+  }
+  for (const target of [{ projectId: args?.projectId, tableName: args?.tableName }, ...linked]) {
+    const reason = checkTarget(apiKey, target);
+    if (reason) {
+      return reason;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a tool should be listed for a key at all (project/table limits are checked per call)
+ */
+export function isToolVisible(apiKey: ApiKey, tool: ToolDefinition) {
+  return checkScope(apiKey, tool, {}) === undefined;
+}
+
+/**
+ * Express middleware requiring `Authorization: Bearer <key>`.
+ * The matched key is stored in res.locals.apiKey. No-op when no key is configured
+ */
+export function bearerAuth(keys: ApiKey[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (keys.length === 0) {
+      next();
+      return;
+    }
+
+    const header = req.headers.authorization || "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    const apiKey = match ? keys.find((k) => k.key === match[1].trim()) : undefined;
+
+    if (!apiKey) {
+      res.status(401).set("WWW-Authenticate", "Bearer").json({
+        ok: false,
+        error: {
+          code: ErrorCode.InvalidRequest,
+          message: match ? "Invalid API key" : "Missing bearer API key"
+        }
+      });
+      return;
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+  };
+}
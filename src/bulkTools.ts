@@ -0,0 +1,445 @@
+/**
+ * Bulk insert/update/delete tools
+ *
+ * Rows are checked against the table columns first, as their dry run does, and
+ * rows with problems are reported as failed without being sent. The others are
+ * sent, with their values coerced, in chunks to NocoDB's bulk endpoints, a few chunks at a time.
+ * A bulk request is all-or-nothing, so when NocoDB rejects a chunk as invalid
+ * (400/422) its rows are retried one by one to find out exactly which rows fail
+ * and why. Bulk writes are not idempotent: a chunk that failed otherwise (timeout,
+ * 5xx, network) may have been written anyway, so it is not sent again and its
+ * rows are reported as failed with that warning.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { rowChanges, snapshotRows } from "./audit.js";
+import { BULK_CHUNK_SIZE, BULK_CONCURRENCY } from "./config.js";
+import { NocoDBClient, primaryKeyOf, TableMeta, TableRef } from "./nocodbClient.js";
+import { errorReason, NocoDBError } from "./nocodbHttp.js";
+import { checkRow, DRY_RUN_PROPERTY, previewDelete, previewInsert, previewResult, previewUpdate } from "./preview.js";
+import { JsonSchema, TABLE_PROPERTIES, ToolContext, ToolDefinition, ToolResult } from "./registry.js";
+
+export type RowStatus = "created" | "updated" | "deleted" | "failed" | "skipped";
+
+export interface RowResult {
+  index: number;
+  status: RowStatus;
+  id?: unknown;
+  error?: string;
+  // MCP error code of a failure: InvalidParams for rows rejected as given (see errorCodeOf)
+  code?: number;
+}
+
+export interface BulkReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  results: RowResult[];
+}
+
+export interface BulkOptions {
+  chunkSize?: number;
+  concurrency?: number;
+  stopOnError?: boolean;
+}
+
+/**
+ * MCP error code of a failed write: NocoDB's answer mapped from its status, InternalError for anything else
+ */
+export function errorCodeOf(error: unknown): number {
+  return error instanceof McpError ? error.code : ErrorCode.InternalError;
+}
+
+// Statuses NocoDB rejects invalid data with: one bad row fails its whole chunk
+const INVALID_STATUSES = [400, 422];
+
+/**
+ * Whether NocoDB refused a request (4xx), so that nothing of it was written
+ */
+function refused(error: unknown): boolean {
+  return error instanceof NocoDBError && error.status !== undefined && error.status >= 400 && error.status < 500;
+}
+
+/**
+ * Sends one chunk of payloads; returns what NocoDB answered per row (same order)
+ */
+type ChunkWriter = (payloads: Record<string, unknown>[]) => Promise<any[]>;
+
+/**
+ * Run `payloads` through `write` in chunks with bounded concurrency and build a per-row report
+ */
+export async function runBulk(
+  payloads: Record<string, unknown>[],
+  write: ChunkWriter,
+  successStatus: RowStatus,
+  idOf: (answer: any, payload: Record<string, unknown>) => unknown,
+  options: BulkOptions = {}
+): Promise<BulkReport> {
+  const chunkSize = Math.max(1, options.chunkSize ?? BULK_CHUNK_SIZE);
+  const concurrency = Math.max(1, options.concurrency ?? BULK_CONCURRENCY);
+  const results: RowResult[] = payloads.map((_, index) => ({ index, status: "skipped" }));
+
+  const chunks: number[][] = [];
+  for (let start = 0; start < payloads.length; start += chunkSize) {
+    chunks.push(payloads.slice(start, start + chunkSize).map((_, i) => start + i));
+  }
+
+  let next = 0;
+  let stopped = false;
+
+  const writeChunk = async (indexes: number[]) => {
+    try {
+      const answers = await write(indexes.map((i) => payloads[i]));
+      indexes.forEach((i, position) => {
+        results[i] = { index: i, status: successStatus, id: idOf(answers[position], payloads[i]) };
+      });
+      return;
+    } catch (error: any) {
+      const invalid = error instanceof NocoDBError && error.status !== undefined && INVALID_STATUSES.includes(error.status);
+      if (indexes.length === 1 || !invalid) {
+        // Rows of a request NocoDB did not refuse may have been written: they are not sent again
+        const reason = refused(error)
+          ? errorReason(error)
+          : `${errorReason(error)} (the request may have been written anyway; check before retrying)`;
+        for (const i of indexes) {
+          results[i] = { index: i, status: "failed", error: reason, code: errorCodeOf(error) };
+        }
+        if (options.stopOnError) stopped = true;
+        return;
+      }
+    }
+
+    // The chunk was rejected as invalid as a whole: retry row by row to isolate the failures
+    for (const i of indexes) {
+      if (stopped) return;
+      try {
+        const [answer] = await write([payloads[i]]);
+        results[i] = { index: i, status: successStatus, id: idOf(answer, payloads[i]) };
+      } catch (error: any) {
+        results[i] = { index: i, status: "failed", error: errorReason(error), code: errorCodeOf(error) };
+        if (options.stopOnError) stopped = true;
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (!stopped && next < chunks.length) {
+      await writeChunk(chunks[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  return bulkReport(results);
+}
+
+/**
+ * Report built from one result per row
+ */
+export function bulkReport(results: RowResult[]): BulkReport {
+  return {
+    total: results.length,
+    succeeded: results.filter((r) => r.status !== "failed" && r.status !== "skipped").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+    results
+  };
+}
+
+/**
+ * Rows checked against the table columns (see checkRow): a result per row, failed for the rows
+ * with problems, and the coerced values of the others with their row indexes
+ */
+export interface CheckedRows {
+  results: RowResult[];
+  indexes: number[];
+  values: Record<string, unknown>[];
+}
+
+/**
+ * Check rows as their dry run does, so that only what the dry run accepts is written.
+ * `otherProblems` adds what the dry run finds besides the data, e.g. a record that does not exist
+ */
+export function checkRows(
+  table: TableMeta,
+  rows: unknown[],
+  action: "insert" | "update",
+  otherProblems: (index: number) => string[] = () => []
+): CheckedRows {
+  const checked: CheckedRows = { results: rows.map((_, index) => ({ index, status: "skipped" })), indexes: [], values: [] };
+  rows.forEach((row, index) => {
+    const { values, problems } = checkRow(table, row, action);
+    problems.push(...otherProblems(index));
+    if (problems.length > 0) {
+      checked.results[index] = { index, status: "failed", error: problems.join("; "), code: ErrorCode.InvalidParams };
+    } else {
+      checked.indexes.push(index);
+      checked.values.push(values);
+    }
+  });
+  return checked;
+}
+
+/**
+ * Write the rows checkRows accepted with `write` and report every row. With stopOnError,
+ * nothing is written when a row was rejected
+ */
+export async function writeChecked(
+  checked: CheckedRows,
+  write: (values: Record<string, unknown>[]) => Promise<BulkReport>,
+  options: BulkOptions = {}
+): Promise<BulkReport> {
+  const results = [...checked.results];
+  if (!(options.stopOnError && checked.indexes.length < results.length)) {
+    const written = await write(checked.values);
+    written.results.forEach((r) => {
+      results[checked.indexes[r.index]] = { ...r, index: checked.indexes[r.index] };
+    });
+  }
+  return bulkReport(results);
+}
+
+/**
+ * Map items through an async function with at most `concurrency` calls in flight (order preserved)
+ */
+export async function mapConcurrent<T, R>(items: T[], concurrency: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      out[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+  return out;
+}
+
+/**
+ * Render a bulk report as a tool result (isError when nothing succeeded; InvalidParams when every failed row was rejected as given)
+ */
+export function reportResult(action: string, report: BulkReport): ToolResult {
+  const failures = report.results.filter((r) => r.status === "failed");
+  const rejected = failures.length > 0 && failures.every((r) => r.code === ErrorCode.InvalidParams);
+  return {
+    content: [{
+      type: "text",
+      text: `${action}: ${report.succeeded} of ${report.total} succeeded, ${report.failed} failed, ${report.skipped} skipped.\n` +
+        JSON.stringify(report, null, 2)
+    }],
+    ...(report.total > 0 && report.succeeded === 0
+      ? { isError: true, errorCode: rejected ? ErrorCode.InvalidParams : ErrorCode.InternalError }
+      : {})
+  };
+}
+
+export const BULK_OPTION_PROPERTIES: Record<string, JsonSchema> = {
+  chunkSize: {
+    type: "number",
+    description: `Rows per bulk request (optional, default ${BULK_CHUNK_SIZE})`
+  },
+  concurrency: {
+    type: "number",
+    description: `Bulk requests in flight at once (optional, default ${BULK_CONCURRENCY})`
+  },
+  stopOnError: {
+    type: "boolean",
+    description: "Stop at the first failing row; remaining rows are reported as skipped (optional, default false: continue)"
+  }
+};
+
+/**
+ * Bulk options from the tool arguments
+ */
+export function bulkOptions(args: any): BulkOptions {
+  return {
+    chunkSize: args.chunkSize,
+    concurrency: args.concurrency,
+    stopOnError: args.stopOnError
+  };
+}
+
+/**
+ * Reject a non-array argument with InvalidParams
+ */
+export function requireArray(value: unknown, name: string): any[] {
+  if (!Array.isArray(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be an array`);
+  }
+  return value;
+}
+
+/**
+ * Insert rows in bulk; also used by other tools that create many rows
+ */
+export function bulkInsert(client: NocoDBClient, ref: TableRef, pk: string, rows: Record<string, unknown>[], options: BulkOptions = {}) {
+  return runBulk(
+    rows,
+    (chunk) => client.bulkInsertRecords(ref, chunk),
+    "created",
+    (answer) => answer?.[pk] ?? answer?.id ?? answer?.Id ?? answer,
+    options
+  );
+}
+
+/**
+ * IDs of the rows a bulk write reports as done with `status`
+ */
+export function idsWithStatus(report: BulkReport, status: RowStatus): unknown[] {
+  return report.results.filter((r) => r.status === status).map((r) => r.id);
+}
+
+/**
+ * Bulk tools, registered by NocoDBServer
+ */
+export function bulkTools(ctx: ToolContext): ToolDefinition[] {
+  return [
+    {
+      name: "bulk_insert_records",
+      description: "Insert many records into a table at once. Returns a per-row report with the created IDs and the failures",
+      access: "write",
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          records: {
+            type: "array",
+            description: "Records to insert (column name -> value)",
+            items: { type: "object" }
+          },
+          ...BULK_OPTION_PROPERTIES,
+          ...DRY_RUN_PROPERTY
+        },
+        required: ["projectId", "tableName", "records"]
+      },
+      handler: async (args) => {
+        const records = requireArray(args.records, "records");
+        const client = await ctx.getClient();
+        const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+        if (args.dryRun) {
+          return previewResult("bulk_insert_records", table, records.map((record, index) => previewInsert(table, record, index)));
+        }
+        const options = bulkOptions(args);
+        const report = await writeChecked(
+          checkRows(table, records, "insert"),
+          (values) => bulkInsert(client, ref, primaryKeyOf(table), values, options),
+          options
+        );
+
+        const created = idsWithStatus(report, "created");
+        await ctx.audit.recordAfterWrite(ref, async () => rowChanges(created, new Map(), await snapshotRows(client, table, ref, created)));
+        return reportResult("Bulk insert", report);
+      }
+    },
+    {
+      name: "bulk_update_records",
+      description: "Update many records of a table at once. Returns a per-row report with the failures",
+      access: "write",
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          records: {
+            type: "array",
+            description: "Records to update",
+            items: {
+              type: "object",
+              properties: {
+                recordId: {
+                  type: "string",
+                  description: "Record ID to update"
+                },
+                data: {
+                  type: "object",
+                  description: "Updated record data (column name -> value)"
+                }
+              },
+              required: ["recordId", "data"]
+            }
+          },
+          ...BULK_OPTION_PROPERTIES,
+          ...DRY_RUN_PROPERTY
+        },
+        required: ["projectId", "tableName", "records"]
+      },
+      handler: async (args) => {
+        const records = requireArray(args.records, "records");
+        const client = await ctx.getClient();
+        const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+        const pk = primaryKeyOf(table);
+
+        const before = await snapshotRows(client, table, ref, records.map((record: any) => record.recordId));
+        if (args.dryRun) {
+          return previewResult("bulk_update_records", table, records.map((record: any, index) =>
+            previewUpdate(table, record.recordId, before.get(String(record.recordId)), record.data, index)
+          ));
+        }
+
+        const options = bulkOptions(args);
+        const checked = checkRows(table, records.map((record: any) => record.data), "update", (index) =>
+          before.has(String(records[index].recordId)) ? [] : [`Record ${records[index].recordId} not found`]
+        );
+        const report = await writeChecked(
+          checked,
+          (values) => runBulk(
+            values.map((data, position) => ({ ...data, [pk]: records[checked.indexes[position]].recordId })),
+            (chunk) => client.bulkUpdateRecords(ref, chunk),
+            "updated",
+            (_, payload) => payload[pk],
+            options
+          ),
+          options
+        );
+
+        const updated = idsWithStatus(report, "updated");
+        await ctx.audit.recordAfterWrite(ref, async () => rowChanges(updated, before, await snapshotRows(client, table, ref, updated)));
+        return reportResult("Bulk update", report);
+      }
+    },
+    {
+      name: "bulk_delete_records",
+      description: "Delete many records of a table at once. Returns a per-row report with the failures",
+      access: "write",
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          recordIds: {
+            type: "array",
+            description: "Record IDs to delete",
+            items: { type: "string" }
+          },
+          ...BULK_OPTION_PROPERTIES,
+          ...DRY_RUN_PROPERTY
+        },
+        required: ["projectId", "tableName", "recordIds"]
+      },
+      handler: async (args) => {
+        const recordIds = requireArray(args.recordIds, "recordIds");
+        const client = await ctx.getClient();
+        const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+        const pk = primaryKeyOf(table);
+        const before = await snapshotRows(client, table, ref, recordIds);
+        if (args.dryRun) {
+          return previewResult("bulk_delete_records", table, recordIds.map((recordId, index) =>
+            previewDelete(table, recordId, before.get(String(recordId)), index)
+          ));
+        }
+
+        const report = await runBulk(
+          recordIds.map((recordId) => ({ [pk]: recordId })),
+          (chunk) => client.bulkDeleteRecords(ref, chunk),
+          "deleted",
+          (_, payload) => payload[pk],
+          bulkOptions(args)
+        );
+
+        ctx.audit.record(ref, rowChanges(idsWithStatus(report, "deleted"), before, new Map()));
+        return reportResult("Bulk delete", report);
+      }
+    }
+  ];
+}
@@ -0,0 +1,82 @@
+/**
+ * Server configuration, read from the environment (.env is loaded here)
+ */
+import * as dotenv from "dotenv";
+
+// Carregar variáveis de ambiente do arquivo .env
+dotenv.config();
+
+// NocoDB configuration - Lendo do arquivo .env
+export const NOCODB_URL = process.env.NOCODB_URL || "http://localhost:8080";
+export const NOCODB_AUTH_TOKEN = process.env.NOCODB_AUTH_TOKEN;
+export const NOCODB_BASE_ID = process.env.NOCODB_BASE_ID;
+// NocoDB API version: "v1", "v2" or "auto" (probe the server)
+export const API_VERSION = process.env.API_VERSION || "auto";
+export const PORT = process.env.PORT || 3000;
+
+// Named connection profiles (JSON file, see connections.ts). Unset = one profile from the NOCODB_* variables
+export const CONNECTIONS_FILE = process.env.CONNECTIONS_FILE;
+
+// Public URL where the HTTP surface is reachable (used in the OpenAPI spec and the manifest)
+export const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || `http://localhost:${PORT}`).replace(/\/+$/, "");
+
+// API keys for the HTTP surface: inline JSON or a JSON file (see auth.ts). Unset = no authentication
+export const API_KEYS = process.env.API_KEYS;
+export const API_KEYS_FILE = process.env.API_KEYS_FILE;
+
+// Tool policy file (read-only switch, allow/deny rules, row cap, confirmations; see policy.ts)
+export const POLICY_FILE = process.env.POLICY_FILE;
+
+// Pagination: default page size and the hard caps of fetch_all
+export const PAGE_SIZE = Number(process.env.PAGE_SIZE || 100);
+export const FETCH_ALL_MAX_ROWS = Number(process.env.FETCH_ALL_MAX_ROWS || 10000);
+export const FETCH_ALL_MAX_BYTES = Number(process.env.FETCH_ALL_MAX_BYTES || 5 * 1024 * 1024);
+
+// Default character budget of query results (see format.ts); tools take maxChars/maxTokens to change it
+export const RESULT_MAX_CHARS = Number(process.env.RESULT_MAX_CHARS || 100000);
+
+// Bulk writes: rows per request and requests in flight (bulk tools can override both)
+export const BULK_CHUNK_SIZE = Number(process.env.BULK_CHUNK_SIZE || 100);
+export const BULK_CONCURRENCY = Number(process.env.BULK_CONCURRENCY || 2);
+
+// NocoDB HTTP calls: timeout, retries (429/5xx/network errors) and backoff bounds
+export const HTTP_TIMEOUT_MS = Number(process.env.HTTP_TIMEOUT_MS || 30000);
+export const HTTP_RETRIES = Number(process.env.HTTP_RETRIES || 3);
+export const HTTP_RETRY_BASE_DELAY_MS = Number(process.env.HTTP_RETRY_BASE_DELAY_MS || 300);
+export const HTTP_RETRY_MAX_DELAY_MS = Number(process.env.HTTP_RETRY_MAX_DELAY_MS || 10000);
+
+// Seconds project/table/column metadata is cached (schema-changing tools clear it)
+export const METADATA_CACHE_TTL = Number(process.env.METADATA_CACHE_TTL || 60);
+
+// Run write tools as dry runs unless called with `confirm: true` (tools without a dry run need the confirmation)
+export const DRY_RUN_DEFAULT = process.env.DRY_RUN_DEFAULT === "true";
+
+// Audit log of mutating tool calls (JSON lines; see audit.ts)
+export const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE || "audit.jsonl";
+
+// Rows aggregate_table reads when NocoDB cannot compute an aggregate itself
+export const AGGREGATE_MAX_ROWS = Number(process.env.AGGREGATE_MAX_ROWS || 100000);
+
+// Table exports: directory export files are written under, and the largest export returned inline
+export const EXPORT_DIR = process.env.EXPORT_DIR || "exports";
+export const EXPORT_MAX_INLINE_BYTES = Number(process.env.EXPORT_MAX_INLINE_BYTES || 1024 * 1024);
+
+// Natural-language questions (POST /ask): LLM provider ("openai" or "stub"), OpenAI credentials and model,
+// and the most tool calls a question may take. Unset provider = "openai" when OPENAI_API_KEY is set, else /ask is off
+export const LLM_PROVIDER = process.env.LLM_PROVIDER || (process.env.OPENAI_API_KEY ? "openai" : undefined);
+export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+export const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini";
+export const ASK_MAX_STEPS = Number(process.env.ASK_MAX_STEPS || 8);
+
+// MCP transports to serve: "stdio", "http" (SSE on the Express app) or "both"
+export type McpTransportMode = "stdio" | "http" | "both";
+
+function parseTransportMode(value: string | undefined): McpTransportMode {
+  const mode = (value || "both").toLowerCase();
+  if (mode !== "stdio" && mode !== "http" && mode !== "both") {
+    throw new Error(`Invalid MCP_TRANSPORT: ${value} (expected stdio, http or both)`);
+  }
+  return mode;
+}
+
+export const MCP_TRANSPORT = parseTransportMode(process.env.MCP_TRANSPORT);
@@ -0,0 +1,162 @@
+/**
+ * Named NocoDB connection profiles
+ *
+ * Profiles come from CONNECTIONS_FILE (a JSON array):
+ *
+ *   [{ "name": "production", "url": "https://noco.example.com", "token": "...",
+ *      "baseId": "p_xxx", "apiVersion": "v2", "readOnly": true, "default": true },
+ *    { "name": "staging", "url": "https://staging.noco.example.com", "token": "..." }]
+ *
+ * Without the file there is a single profile, "default", built from NOCODB_URL,
+ * NOCODB_AUTH_TOKEN, NOCODB_BASE_ID and API_VERSION. Each connection has its own
+ * HTTP client, API version detection and metadata cache. Tool calls pick one with
+ * the `connection` argument; the connection of the call in progress is what
+ * `active()` returns.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import * as fs from "fs";
+import { AxiosInstance } from "axios";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { API_VERSION, CONNECTIONS_FILE, NOCODB_AUTH_TOKEN, NOCODB_BASE_ID, NOCODB_URL } from "./config.js";
+import { MetadataResolver, suggest } from "./metadata.js";
+import { createNocoDBClient, NocoDBClient } from "./nocodbClient.js";
+import { createNocoDBHttp } from "./nocodbHttp.js";
+import type { JsonSchema } from "./registry.js";
+
+export interface ConnectionProfile {
+  name: string;
+  url: string;
+  token?: string;
+  // Project used by tools called without a projectId
+  baseId?: string;
+  apiVersion?: string;
+  readOnly?: boolean;
+  default?: boolean;
+}
+
+/**
+ * Read the configured profiles (the env-based "default" profile when there is no file)
+ */
+export function loadConnections(): ConnectionProfile[] {
+  if (!CONNECTIONS_FILE) {
+    return [{ name: "default", url: NOCODB_URL, token: NOCODB_AUTH_TOKEN, baseId: NOCODB_BASE_ID, apiVersion: API_VERSION }];
+  }
+
+  const profiles: ConnectionProfile[] = JSON.parse(fs.readFileSync(CONNECTIONS_FILE, "utf-8"));
+  if (!Array.isArray(profiles) || profiles.length === 0) {
+    throw new Error(`${CONNECTIONS_FILE} must hold a non-empty array of connection profiles`);
+  }
+  const names = new Set<string>();
+  for (const profile of profiles) {
+    if (!profile?.name || !profile.url) {
+      throw new Error(`Every connection profile in ${CONNECTIONS_FILE} needs a name and a url`);
+    }
+    if (names.has(profile.name)) {
+      throw new Error(`Duplicate connection profile in ${CONNECTIONS_FILE}: ${profile.name}`);
+    }
+    names.add(profile.name);
+  }
+  console.error(`Connection profiles loaded from ${CONNECTIONS_FILE}: ${[...names].join(", ")}`);
+  return profiles;
+}
+
+/**
+ * One NocoDB instance: HTTP client, API client and metadata cache
+ */
+export class Connection {
+  readonly http: AxiosInstance;
+  readonly metadata: MetadataResolver;
+  private clientPromise?: Promise<NocoDBClient>;
+
+  constructor(readonly profile: ConnectionProfile) {
+    this.http = createNocoDBHttp(profile.url, profile.token);
+    this.metadata = new MetadataResolver(() => this.getClient());
+  }
+
+  get name() {
+    return this.profile.name;
+  }
+
+  /**
+   * NocoDB client for the profile's API version (detected once when it is "auto")
+   */
+  getClient(): Promise<NocoDBClient> {
+    if (!this.clientPromise) {
+      this.clientPromise = createNocoDBClient(this.http, this.profile.apiVersion || "auto").then((client) => {
+        console.error(`Using NocoDB API ${client.version} for connection ${this.name}`);
+        return client;
+      });
+      // A failed detection (NocoDB unreachable, token rejected) is retried on the next call
+      this.clientPromise.catch(() => { this.clientPromise = undefined; });
+    }
+    return this.clientPromise;
+  }
+}
+
+export class ConnectionManager {
+  private connections = new Map<string, Connection>();
+  private current = new AsyncLocalStorage<Connection>();
+  readonly defaultName: string;
+
+  constructor(profiles: ConnectionProfile[] = loadConnections()) {
+    for (const profile of profiles) {
+      this.connections.set(profile.name, new Connection(profile));
+    }
+    this.defaultName = (profiles.find((p) => p.default) ?? profiles[0]).name;
+  }
+
+  list(): Connection[] {
+    return [...this.connections.values()];
+  }
+
+  has(name: string) {
+    return this.connections.has(name);
+  }
+
+  /**
+   * Connection by name (the default one when no name is given)
+   */
+  get(name?: string): Connection {
+    if (name === undefined || name === null || name === "") {
+      return this.connections.get(this.defaultName)!;
+    }
+    const connection = this.connections.get(String(name));
+    if (!connection) {
+      const suggestions = suggest(String(name), [...this.connections.keys()]);
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown connection: ${name}. ` +
+          (suggestions.length > 0 ? `Did you mean: ${suggestions.join(", ")}? ` : "") +
+          `Available: ${[...this.connections.keys()].join(", ")}`
+      );
+    }
+    return connection;
+  }
+
+  /**
+   * Run `fn` with `connection` as the active one
+   */
+  run<T>(connection: Connection, fn: () => Promise<T>): Promise<T> {
+    return this.current.run(connection, fn);
+  }
+
+  /**
+   * Connection of the call in progress, or the default one
+   */
+  active(): Connection {
+    return this.current.getStore() ?? this.get();
+  }
+
+  /**
+   * The `connection` argument every tool accepts, as advertised in tool schemas
+   */
+  schemaProperty(): Record<string, JsonSchema> {
+    return {
+      connection: {
+        type: "string",
+        enum: [...this.connections.keys()],
+        description: `NocoDB connection profile to use (optional, default ${this.defaultName}; see list_connections)`
+      }
+    };
+  }
+}
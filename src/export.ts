@@ -0,0 +1,250 @@
+/**
+ * Table exports: every row of a table, page by page, rendered as CSV, JSON,
+ * NDJSON or a Markdown table
+ *
+ * Rows are streamed: each page is rendered and handed to the sink before the
+ * next one is read, so an export to a file never holds the whole table.
+ * Inline exports (tool results, resources) stop at EXPORT_MAX_INLINE_BYTES,
+ * and every export stops at its row limit (capped by the policy's maxRows).
+ * CSV text cells that a spreadsheet would run as a formula are prefixed with a
+ * quote unless the caller turns escapeFormulas off.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { EXPORT_DIR, EXPORT_MAX_INLINE_BYTES, PAGE_SIZE } from "./config.js";
+import { ListParams, NocoDBClient, TableMeta, TableRef } from "./nocodbClient.js";
+import { fetchPage } from "./pagination.js";
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson", "markdown"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// utf-8-bom and utf-16le start with a byte order mark, which Excel needs to detect the encoding
+export const EXPORT_ENCODINGS = ["utf-8", "utf-8-bom", "utf-16le", "latin1"] as const;
+export type ExportEncoding = typeof EXPORT_ENCODINGS[number];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+  markdown: "text/markdown"
+};
+
+export interface ExportRequest {
+  format: ExportFormat;
+  encoding: ExportEncoding;
+  // CSV only
+  delimiter: string;
+  escapeFormulas: boolean;
+  // where/sort/fields, already compiled
+  params: ListParams;
+  // Rows to export at most (all when undefined)
+  limit?: number;
+}
+
+export interface ExportSummary {
+  rows: number;
+  bytes: number;
+  // Whether rows were left out by the limit
+  truncated: boolean;
+}
+
+type Sink = (chunk: Buffer) => void | Promise<void>;
+
+/**
+ * Check the format, encoding and delimiter arguments and fill in the defaults
+ */
+export function exportRequest(
+  args: { format?: unknown; encoding?: unknown; delimiter?: unknown; escapeFormulas?: unknown; limit?: unknown },
+  params: ListParams
+): ExportRequest {
+  const format = (args.format ?? "csv") as ExportFormat;
+  const encoding = (args.encoding ?? "utf-8") as ExportEncoding;
+  const delimiter = args.delimiter ?? ",";
+  const escapeFormulas = args.escapeFormulas ?? true;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid export format '${format}' (expected ${EXPORT_FORMATS.join(", ")})`);
+  }
+  if (!EXPORT_ENCODINGS.includes(encoding)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid encoding '${encoding}' (expected ${EXPORT_ENCODINGS.join(", ")})`);
+  }
+  if (typeof delimiter !== "string" || delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new McpError(ErrorCode.InvalidParams, "delimiter must be a single character other than a quote or a line break");
+  }
+  if (typeof escapeFormulas !== "boolean") {
+    throw new McpError(ErrorCode.InvalidParams, "escapeFormulas must be a boolean");
+  }
+  const limit = args.limit === undefined ? undefined : Number(args.limit);
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    throw new McpError(ErrorCode.InvalidParams, `limit must be a positive integer, got ${args.limit}`);
+  }
+  return { format, encoding, delimiter, escapeFormulas, params, ...(limit !== undefined ? { limit } : {}) };
+}
+
+/**
+ * Columns of the export, by title: the projected fields (see columnRef), or every column NocoDB does not manage itself
+ */
+function exportColumns(table: TableMeta, params: ListParams): string[] {
+  const columns: any[] = table.columns || [];
+  return params.fields
+    ? params.fields.split(",").map((name) => (columns.find((column) => column.title === name) ?? columns.find((column) => column.column_name === name))?.title ?? name)
+    : columns.filter((column) => !column.system).map((column) => column.title);
+}
+
+export function cellText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Leading characters that make Excel and other spreadsheets read a cell as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * A value as a CSV cell. With `escapeFormulas`, text starting like a formula gets a leading
+ * quote so that spreadsheets show it instead of running it; numbers are left as they are
+ */
+export function csvCell(value: unknown, delimiter: string, escapeFormulas = false): string {
+  let text = cellText(value);
+  if (escapeFormulas && typeof value !== "number" && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Renders rows of one format: what comes before the rows, each row, and what comes after
+ */
+function renderer(request: ExportRequest, columns: string[]) {
+  const { format, delimiter, escapeFormulas } = request;
+  switch (format) {
+    case "csv":
+      return {
+        head: columns.map((c) => csvCell(c, delimiter, escapeFormulas)).join(delimiter) + "\r\n",
+        row: (row: any) => columns.map((c) => csvCell(row[c], delimiter, escapeFormulas)).join(delimiter) + "\r\n",
+        tail: ""
+      };
+    case "json":
+      return {
+        head: "[",
+        row: (row: any, index: number) => `${index > 0 ? "," : ""}\n  ${JSON.stringify(row)}`,
+        tail: "\n]\n"
+      };
+    case "ndjson":
+      return {
+        head: "",
+        row: (row: any) => JSON.stringify(row) + "\n",
+        tail: ""
+      };
+    case "markdown":
+      return {
+        head: `| ${columns.map(markdownCell).join(" | ")} |\n|${columns.map(() => " --- |").join("")}\n`,
+        row: (row: any) => `| ${columns.map((c) => markdownCell(row[c])).join(" | ")} |\n`,
+        tail: ""
+      };
+  }
+}
+
+function encode(text: string, encoding: ExportEncoding): Buffer {
+  return Buffer.from(text, encoding === "utf-16le" ? "utf16le" : encoding === "latin1" ? "latin1" : "utf-8");
+}
+
+/**
+ * Read the rows of a table page by page, up to the request's limit, and hand the rendered export to `sink`, in order
+ */
+export async function runExport(client: NocoDBClient, table: TableMeta, ref: TableRef, request: ExportRequest, sink: Sink): Promise<ExportSummary> {
+  const columns = exportColumns(table, request.params);
+  const render = renderer(request, columns);
+  let bytes = 0;
+  const write = async (text: string) => {
+    if (!text) return;
+    const chunk = encode(text, request.encoding);
+    bytes += chunk.length;
+    await sink(chunk);
+  };
+
+  if (request.encoding === "utf-8-bom" || request.encoding === "utf-16le") {
+    await write("\uFEFF");
+  }
+  await write(render.head);
+
+  let rows = 0;
+  let offset = 0;
+  let truncated = false;
+  while (true) {
+    const pageSize = request.limit === undefined ? PAGE_SIZE : Math.min(PAGE_SIZE, request.limit - rows);
+    const page = await fetchPage((pageOffset, limit) => client.listRecords(ref, { ...request.params, offset: pageOffset, limit }), offset, pageSize);
+    await write(page.list.map((row) => render.row(row, rows++)).join(""));
+    offset += page.list.length;
+    if (!page.nextCursor || page.list.length === 0) break;
+    if (request.limit !== undefined && rows >= request.limit) {
+      truncated = true;
+      break;
+    }
+  }
+
+  await write(render.tail);
+  return { rows, bytes, truncated };
+}
+
+/**
+ * Export into memory, failing once it grows past EXPORT_MAX_INLINE_BYTES
+ */
+export async function exportInline(client: NocoDBClient, table: TableMeta, ref: TableRef, request: ExportRequest) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const summary = await runExport(client, table, ref, request, (chunk) => {
+    size += chunk.length;
+    if (size > EXPORT_MAX_INLINE_BYTES) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Export of ${table.title} is larger than ${EXPORT_MAX_INLINE_BYTES} bytes; write it to a file with export_table_to_file, or narrow it with filters and fields`
+      );
+    }
+    chunks.push(chunk);
+  });
+  return { ...summary, content: Buffer.concat(chunks) };
+}
+
+/**
+ * Path of an export file: relative paths are taken from EXPORT_DIR, and no path may leave it
+ */
+export function exportPath(file: string): string {
+  const root = path.resolve(EXPORT_DIR);
+  const target = path.resolve(root, file);
+  if (target === root || !target.startsWith(root + path.sep)) {
+    throw new McpError(ErrorCode.InvalidParams, `Export path must be a file inside the export directory (${root}): ${file}`);
+  }
+  return target;
+}
+
+/**
+ * Export into a file. Rows go to `<file>.part`, renamed once complete, so a failed export leaves no partial file
+ */
+export async function exportToFile(client: NocoDBClient, table: TableMeta, ref: TableRef, request: ExportRequest, file: string, overwrite: boolean) {
+  const target = exportPath(file);
+  if (!overwrite && fs.existsSync(target)) {
+    throw new McpError(ErrorCode.InvalidParams, `Export file already exists: ${target} (set overwrite to replace it)`);
+  }
+  await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+  const partial = `${target}.part`;
+  const handle = await fs.promises.open(partial, "w");
+  try {
+    const summary = await runExport(client, table, ref, request, async (chunk) => {
+      await handle.write(chunk);
+    });
+    await handle.close();
+    await fs.promises.rename(partial, target);
+    return { ...summary, path: target };
+  } catch (error) {
+    await handle.close().catch(() => undefined);
+    await fs.promises.rm(partial, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Export tools: a whole table (optionally filtered, sorted and projected) as CSV,
+ * JSON, NDJSON or Markdown, inline or into a file under EXPORT_DIR (see export.ts)
+ *
+ * Writing a file is a write: export_table_to_file is blocked by read-only
+ * policies, connections and API keys, and audited like the other write tools.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { EXPORT_DIR, EXPORT_MAX_INLINE_BYTES } from "./config.js";
+import { EXPORT_ENCODINGS, EXPORT_FORMATS, ExportSummary, exportInline, exportRequest, exportToFile } from "./export.js";
+import { compileQuery, QUERY_SCHEMA_PROPERTIES } from "./filters.js";
+import { JsonSchema, TABLE_PROPERTIES, textResult, ToolContext, ToolDefinition } from "./registry.js";
+
+const EXPORT_PROPERTIES: Record<string, JsonSchema> = {
+  ...TABLE_PROPERTIES,
+  ...QUERY_SCHEMA_PROPERTIES,
+  format: {
+    type: "string",
+    enum: [...EXPORT_FORMATS],
+    description: "Output format (optional, default csv)"
+  },
+  delimiter: {
+    type: "string",
+    description: "CSV delimiter, e.g. ';' for Excel in locales with a decimal comma (optional, default ',')"
+  },
+  escapeFormulas: {
+    type: "boolean",
+    description:
+      "Prefix CSV text cells starting with =, +, -, @, a tab or a carriage return with a quote, " +
+      "so that spreadsheets do not run them as formulas (optional, default true)"
+  },
+  limit: {
+    type: "number",
+    description: "Maximum number of rows to export (optional, default every row)"
+  }
+};
+
+function rowCount(summary: ExportSummary): string {
+  return `${summary.rows} row(s)${summary.truncated ? " (limited; more rows match)" : ""}`;
+}
+
+/**
+ * Export tools, registered by NocoDBServer
+ */
+export function exportTools(ctx: ToolContext): ToolDefinition[] {
+  return [
+    {
+      name: "export_table",
+      description:
+        "Export every row of a table (optionally filtered, sorted and limited to some fields) as CSV, JSON, NDJSON or a Markdown table. " +
+        `Exports over ${EXPORT_MAX_INLINE_BYTES} bytes must be written to a file with export_table_to_file`,
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: EXPORT_PROPERTIES,
+        required: ["projectId", "tableName"]
+      },
+      handler: async (args) => {
+        const client = await ctx.getClient();
+        const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+        const request = exportRequest(args, compileQuery(args, table.columns || []));
+        if (request.encoding !== "utf-8") {
+          throw new McpError(ErrorCode.InvalidParams, `Encoding ${request.encoding} only applies to files; use export_table_to_file`);
+        }
+
+        const exported = await exportInline(client, table, ref, request);
+        return {
+          content: [
+            { type: "text", text: `Export of ${table.title}: ${rowCount(exported)} as ${request.format}` },
+            { type: "text", text: exported.content.toString("utf-8") }
+          ]
+        };
+      }
+    },
+    {
+      name: "export_table_to_file",
+      description:
+        "Export every row of a table, like export_table, into a file in the server's export directory. " +
+        "Use it for exports too large to return inline or in an encoding other than UTF-8",
+      access: "write",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...EXPORT_PROPERTIES,
+          encoding: {
+            type: "string",
+            enum: [...EXPORT_ENCODINGS],
+            description: "Encoding of the file; utf-8-bom or utf-16le let Excel detect it (optional, default utf-8)"
+          },
+          path: {
+            type: "string",
+            description: `File to write the export to, relative to the server's export directory (${EXPORT_DIR})`
+          },
+          overwrite: {
+            type: "boolean",
+            description: "Replace the file at path if it exists (optional, default false)"
+          }
+        },
+        required: ["projectId", "tableName", "path"]
+      },
+      handler: async (args) => {
+        const client = await ctx.getClient();
+        const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+        const request = exportRequest(args, compileQuery(args, table.columns || []));
+
+        const file = await exportToFile(client, table, ref, request, String(args.path), args.overwrite === true);
+        return textResult(`Exported ${rowCount(file)} of ${table.title} as ${request.format} (${request.encoding}, ${file.bytes} bytes) to ${file.path}`);
+      }
+    }
+  ];
+}
@@ -0,0 +1,357 @@
+/**
+ * Structured filter, sort and field-projection language for the query tools
+ *
+ * A filter is a tree of conditions nested with and/or/not:
+ *
+ *   { "and": [
+ *     { "field": "Status", "op": "eq", "value": "Open" },
+ *     { "or": [
+ *       { "field": "Amount", "op": "between", "value": [100, 500] },
+ *       { "not": { "field": "Owner", "op": "isnull" } }
+ *     ] }
+ *   ] }
+ *
+ * It is validated against the table's columns and compiled into NocoDB's
+ * where syntax: `(Status,eq,Open)~and((Amount,btw,100,500)~or(Owner,isnot,null))`.
+ * `not` is pushed down to the conditions (De Morgan), since NocoDB has no
+ * standalone negation for groups. Values may not contain the characters of the
+ * where syntax (parentheses, commas and ~), which NocoDB has no escape for;
+ * columns whose titles contain them are named by their column name (see columnRef).
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { ListParams } from "./nocodbClient.js";
+import { JsonSchema } from "./registry.js";
+
+export const FILTER_OPERATORS = ["eq", "neq", "gt", "gte", "lt", "lte", "like", "nlike", "in", "isnull", "notnull", "between"] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export interface FilterCondition {
+  field: string;
+  op: FilterOperator;
+  value?: unknown;
+}
+
+export type FilterNode =
+  | FilterCondition
+  | { and: FilterNode[] }
+  | { or: FilterNode[] }
+  | { not: FilterNode };
+
+export interface SortSpec {
+  field: string;
+  direction?: "asc" | "desc";
+}
+
+/**
+ * Column metadata used for validation (subset of NocoDB's column meta)
+ */
+export interface ColumnMeta {
+  id?: string;
+  title: string;
+  column_name?: string;
+  uidt?: string;
+}
+
+const NEGATED: Record<FilterOperator, FilterOperator> = {
+  eq: "neq",
+  neq: "eq",
+  gt: "lte",
+  gte: "lt",
+  lt: "gte",
+  lte: "gt",
+  like: "nlike",
+  nlike: "like",
+  isnull: "notnull",
+  notnull: "isnull",
+  // in / between have no direct negation and are expanded instead
+  in: "in",
+  between: "between"
+};
+
+// Comparison operators NocoDB needs a sub-operator for on date columns
+const DATE_TYPES = ["Date", "DateTime", "CreatedTime", "LastModifiedTime"];
+const COMPARISONS: FilterOperator[] = ["eq", "neq", "gt", "gte", "lt", "lte"];
+
+// Characters of NocoDB's where syntax: a value or column name holding them would end the condition early
+const RESERVED = /[(),~]/;
+
+function invalid(message: string): never {
+  throw new McpError(ErrorCode.InvalidParams, message);
+}
+
+/**
+ * Find a column by title or column name (case-insensitive)
+ */
+export function resolveColumn(columns: ColumnMeta[], field: unknown): ColumnMeta {
+  if (typeof field !== "string" || field.length === 0) {
+    invalid(`Invalid field name: ${JSON.stringify(field)}`);
+  }
+  const lower = field.toLowerCase();
+  const column = columns.find((c) => c.title.toLowerCase() === lower || c.column_name?.toLowerCase() === lower);
+  if (!column) {
+    invalid(`Unknown column '${field}'. Available columns: ${columns.map((c) => c.title).join(", ")}`);
+  }
+  return column;
+}
+
+/**
+ * A column as it goes into where, sort and fields: its title, or its column name when the title
+ * holds characters of the where syntax. Columns named with them both cannot be used there
+ */
+export function columnRef(column: ColumnMeta): string {
+  if (!RESERVED.test(column.title)) {
+    return column.title;
+  }
+  if (column.column_name && !RESERVED.test(column.column_name)) {
+    return column.column_name;
+  }
+  invalid(`Column '${column.title}' cannot be filtered, sorted or selected: its name contains parentheses, commas or ~`);
+}
+
+function isCondition(node: any): node is FilterCondition {
+  return node && typeof node === "object" && "field" in node;
+}
+
+/**
+ * Legacy `{ column: value }` filters are treated as equality conditions joined with and
+ */
+function normalize(filter: any): FilterNode {
+  if (!filter || typeof filter !== "object" || Array.isArray(filter)) {
+    invalid("Filter must be an object");
+  }
+  if (isCondition(filter) || "and" in filter || "or" in filter || "not" in filter) {
+    return filter;
+  }
+  return {
+    and: Object.entries(filter).map(([field, value]) =>
+      value === null ? { field, op: "isnull" as const } : { field, op: "eq" as const, value }
+    )
+  };
+}
+
+/**
+ * Push `not` down to the conditions, so the tree only has and/or groups
+ */
+function negate(node: FilterNode): FilterNode {
+  if (isCondition(node)) {
+    if (node.op === "in") {
+      const values = Array.isArray(node.value) ? node.value : [node.value];
+      return { and: values.map((value) => ({ field: node.field, op: "neq" as const, value })) };
+    }
+    if (node.op === "between") {
+      const [min, max] = Array.isArray(node.value) ? node.value : [];
+      return {
+        or: [
+          { field: node.field, op: "lt", value: min },
+          { field: node.field, op: "gt", value: max }
+        ]
+      };
+    }
+    if (!NEGATED[node.op]) {
+      invalid(`Unknown operator '${node.op}'. Supported: ${FILTER_OPERATORS.join(", ")}`);
+    }
+    return { ...node, op: NEGATED[node.op] };
+  }
+  if ("and" in node) {
+    return { or: node.and.map(negate) };
+  }
+  if ("or" in node) {
+    return { and: node.or.map(negate) };
+  }
+  return node.not;
+}
+
+/**
+ * A value as it goes into the where clause. Values that would change the clause are refused
+ */
+function formatValue(value: unknown, field: string): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (typeof value === "object") {
+    invalid(`Invalid filter value on '${field}': ${JSON.stringify(value)}`);
+  }
+  const text = String(value);
+  if (RESERVED.test(text)) {
+    invalid(
+      `Filter value ${JSON.stringify(text)} on '${field}' cannot contain parentheses, commas or ~ ` +
+      "(NocoDB's where syntax has no escape for them); match a part of it with like instead"
+    );
+  }
+  return text;
+}
+
+function compileCondition(condition: FilterCondition, columns: ColumnMeta[]): string {
+  const column = resolveColumn(columns, condition.field);
+  const field = column.title;
+  const { op, value } = condition;
+
+  if (!FILTER_OPERATORS.includes(op)) {
+    invalid(`Unknown operator '${op}' on '${field}'. Supported: ${FILTER_OPERATORS.join(", ")}`);
+  }
+  const ref = columnRef(column);
+
+  switch (op) {
+    case "isnull":
+      return `(${ref},is,null)`;
+    case "notnull":
+      return `(${ref},isnot,null)`;
+    case "in": {
+      if (!Array.isArray(value) || value.length === 0) {
+        invalid(`Operator 'in' on '${field}' needs a non-empty array value`);
+      }
+      return `(${ref},in,${value.map((item) => formatValue(item, field)).join(",")})`;
+    }
+    case "between": {
+      if (!Array.isArray(value) || value.length !== 2) {
+        invalid(`Operator 'between' on '${field}' needs a [min, max] value`);
+      }
+      return `(${ref},btw,${formatValue(value[0], field)},${formatValue(value[1], field)})`;
+    }
+    default: {
+      if (value === undefined) {
+        invalid(`Operator '${op}' on '${field}' needs a value`);
+      }
+      const nocoOp = op === "gte" ? "ge" : op === "lte" ? "le" : op;
+      // NocoDB compares dates through a sub-operator
+      if (column.uidt && DATE_TYPES.includes(column.uidt) && COMPARISONS.includes(op)) {
+        return `(${ref},${nocoOp},exactDate,${formatValue(value, field)})`;
+      }
+      return `(${ref},${nocoOp},${formatValue(value, field)})`;
+    }
+  }
+}
+
+function compileNode(node: FilterNode, columns: ColumnMeta[], nested: boolean): string {
+  if (!node || typeof node !== "object") {
+    invalid(`Invalid filter node: ${JSON.stringify(node)}`);
+  }
+  if (isCondition(node)) {
+    return compileCondition(node, columns);
+  }
+  if ("not" in node) {
+    return compileNode(negate(node.not), columns, nested);
+  }
+
+  const logical = "and" in node ? "and" : "or" in node ? "or" : undefined;
+  const children: FilterNode[] | undefined = logical === "and" ? (node as any).and : logical === "or" ? (node as any).or : undefined;
+  if (!logical || !Array.isArray(children)) {
+    invalid(`Filter node must be a condition or an and/or/not group: ${JSON.stringify(node)}`);
+  }
+  if (children.length === 0) {
+    invalid(`Empty '${logical}' group in filter`);
+  }
+
+  const compiled = children.map((child) => compileNode(child, columns, true));
+  if (compiled.length === 1) {
+    return compiled[0];
+  }
+  const joined = compiled.join(`~${logical}`);
+  return nested ? `(${joined})` : joined;
+}
+
+/**
+ * Validate a filter tree against the table columns and compile it into a NocoDB where clause
+ */
+export function compileWhere(filter: unknown, columns: ColumnMeta[]): string | undefined {
+  if (filter === undefined || filter === null) {
+    return undefined;
+  }
+  if (typeof filter === "object" && Object.keys(filter).length === 0) {
+    return undefined;
+  }
+  return compileNode(normalize(filter), columns, false);
+}
+
+/**
+ * Compile sort specs (`[{ field, direction }]` or `"-Field"` strings) into NocoDB's sort param
+ */
+export function compileSort(sort: unknown, columns: ColumnMeta[]): string | undefined {
+  if (sort === undefined || sort === null) {
+    return undefined;
+  }
+  const specs = Array.isArray(sort) ? sort : [sort];
+  if (specs.length === 0) {
+    return undefined;
+  }
+
+  return specs.map((spec) => {
+    if (typeof spec === "string") {
+      const desc = spec.startsWith("-");
+      const column = resolveColumn(columns, desc ? spec.slice(1) : spec);
+      return `${desc ? "-" : ""}${columnRef(column)}`;
+    }
+    const { field, direction = "asc" } = spec as SortSpec;
+    if (direction !== "asc" && direction !== "desc") {
+      invalid(`Invalid sort direction '${direction}' (expected asc or desc)`);
+    }
+    const column = resolveColumn(columns, field);
+    return `${direction === "desc" ? "-" : ""}${columnRef(column)}`;
+  }).join(",");
+}
+
+/**
+ * Compile a field projection into NocoDB's fields param
+ */
+export function compileFields(fields: unknown, columns: ColumnMeta[]): string | undefined {
+  if (fields === undefined || fields === null) {
+    return undefined;
+  }
+  if (!Array.isArray(fields)) {
+    invalid("fields must be an array of column names");
+  }
+  if (fields.length === 0) {
+    return undefined;
+  }
+  return fields.map((field) => columnRef(resolveColumn(columns, field))).join(",");
+}
+
+/**
+ * List params of the query tools' filters, sort and fields arguments
+ */
+export function compileQuery(args: { filters?: unknown; sort?: unknown; fields?: unknown }, columns: ColumnMeta[]): ListParams {
+  const params: ListParams = {};
+  const where = compileWhere(args.filters, columns);
+  const sort = compileSort(args.sort, columns);
+  const fields = compileFields(args.fields, columns);
+
+  if (where) params.where = where;
+  if (sort) params.sort = sort;
+  if (fields) params.fields = fields;
+
+  return params;
+}
+
+/**
+ * Input schema properties shared by the query tools
+ */
+export const QUERY_SCHEMA_PROPERTIES: Record<string, JsonSchema> = {
+  filters: {
+    type: "object",
+    description:
+      "Filter tree (optional). A condition is { field, op, value } with op one of " +
+      FILTER_OPERATORS.join(", ") +
+      " ('in' takes an array, 'between' takes [min, max], 'isnull'/'notnull' take no value). " +
+      "Combine with { and: [...] }, { or: [...] } and { not: {...} }. " +
+      "A plain { column: value } object is read as equality conditions joined with and. " +
+      "Values cannot contain parentheses, commas or ~."
+  },
+  sort: {
+    type: "array",
+    description: "Sort order (optional), e.g. [{ field: 'Name', direction: 'asc' }, { field: 'CreatedAt', direction: 'desc' }]",
+    items: {
+      type: "object",
+      properties: {
+        field: { type: "string" },
+        direction: { type: "string", enum: ["asc", "desc"] }
+      },
+      required: ["field"]
+    }
+  },
+  fields: {
+    type: "array",
+    description: "Columns to return (optional, default all)",
+    items: { type: "string" }
+  }
+};
@@ -0,0 +1,243 @@
+/**
+ * Rendering of the rows read by the query tools: pretty JSON (the default, same
+ * shape as before), compact JSON (column names once, rows as arrays), a Markdown
+ * table, CSV or a per-column summary
+ *
+ * A character budget (maxChars, or maxTokens) keeps the leading rows that fit and
+ * reports how many were left out, with a cursor that reads on from the first of
+ * them. Fields NocoDB maintains itself (CreatedAt, UpdatedAt and other system
+ * columns) are left out unless they are asked for in `fields`.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { RESULT_MAX_CHARS } from "./config.js";
+import { cellText, csvCell, markdownCell } from "./export.js";
+import { encodeCursor } from "./pagination.js";
+import { JsonSchema } from "./registry.js";
+
+export const RESULT_FORMATS = ["json", "compact", "markdown", "csv", "summary"] as const;
+export type ResultFormat = typeof RESULT_FORMATS[number];
+
+// Rough size of a token, to turn maxTokens into characters
+const CHARS_PER_TOKEN = 4;
+
+// Bookkeeping fields on every NocoDB row, whether or not the table flags them as system columns
+const NOISY_FIELDS = ["CreatedAt", "UpdatedAt"];
+
+// Columns with at most this many distinct values are summarized value by value
+const SUMMARY_MAX_VALUES = 5;
+
+export interface FormatOptions {
+  format: ResultFormat;
+  maxChars: number;
+  // Fields the caller asked for, kept even when NocoDB maintains them
+  fields: string[];
+}
+
+/**
+ * Rows read by a tool (a page or fetch_all result) and what goes with them
+ */
+export interface RowResult {
+  list: any[];
+  nextCursor?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Where the rows were read from, to build a cursor to the rows a budget leaves out
+ */
+export interface RowWindow {
+  offset: number;
+  limit: number;
+  // Table columns; its system columns are left out like the noisy fields
+  columns?: any[];
+}
+
+/**
+ * Input schema properties of the tools whose results go through formatRows
+ */
+export const FORMAT_SCHEMA_PROPERTIES: Record<string, JsonSchema> = {
+  format: {
+    type: "string",
+    enum: [...RESULT_FORMATS],
+    description:
+      "Result format (optional, default json): json, compact (column names once, rows as arrays), " +
+      "markdown (table), csv, or summary (row count and per-column statistics instead of rows)"
+  },
+  maxChars: {
+    type: "number",
+    description: `Character budget of the result: the leading rows that fit are kept, and a cursor continues after them (optional, default ${RESULT_MAX_CHARS})`
+  },
+  maxTokens: {
+    type: "number",
+    description: `Budget in tokens instead of characters, about ${CHARS_PER_TOKEN} characters each (optional)`
+  }
+};
+
+function invalid(message: string): never {
+  throw new McpError(ErrorCode.InvalidParams, message);
+}
+
+function positiveInteger(value: unknown, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    invalid(`${name} must be a positive integer, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Check the format, maxChars and maxTokens arguments and fill in the defaults
+ */
+export function formatOptions(args: { format?: unknown; maxChars?: unknown; maxTokens?: unknown; fields?: unknown }): FormatOptions {
+  const format = (args.format ?? "json") as ResultFormat;
+  if (!RESULT_FORMATS.includes(format)) {
+    invalid(`Invalid format '${format}' (expected ${RESULT_FORMATS.join(", ")})`);
+  }
+  const maxChars = positiveInteger(args.maxChars, "maxChars");
+  const maxTokens = positiveInteger(args.maxTokens, "maxTokens");
+  const budgets = [maxChars, maxTokens === undefined ? undefined : maxTokens * CHARS_PER_TOKEN]
+    .filter((budget): budget is number => budget !== undefined);
+  return {
+    format,
+    maxChars: budgets.length > 0 ? Math.min(...budgets) : RESULT_MAX_CHARS,
+    fields: Array.isArray(args.fields) ? args.fields.map(String) : []
+  };
+}
+
+/**
+ * Leave out the noisy and system fields nobody asked for
+ */
+function dropNoise(rows: any[], options: FormatOptions, columns: any[] = []): any[] {
+  const requested = new Set(options.fields.map((field) => field.toLowerCase()));
+  const system = columns.filter((column) => column.system && !column.pk).map((column) => String(column.title));
+  const dropped = new Set([...NOISY_FIELDS, ...system].filter((field) => !requested.has(field.toLowerCase())));
+  return rows.map((row) =>
+    row && typeof row === "object" && !Array.isArray(row)
+      ? Object.fromEntries(Object.entries(row).filter(([field]) => !dropped.has(field)))
+      : row
+  );
+}
+
+/**
+ * Fields of the rows, in the order they first appear
+ */
+function rowColumns(rows: any[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    if (row && typeof row === "object") {
+      Object.keys(row).forEach((field) => columns.add(field));
+    }
+  }
+  return [...columns];
+}
+
+function totalRows(result: RowResult): unknown {
+  return (result.pageInfo as any)?.totalRows ?? result.totalRows;
+}
+
+/**
+ * One line saying how many rows there are and how to read on
+ */
+function describe(kept: number, total: unknown, omitted: number, cursor: string | undefined, options: FormatOptions): string {
+  const parts = [`${kept} row(s)${typeof total === "number" ? ` of ${total}` : ""}`];
+  if (omitted > 0) {
+    parts.push(`${omitted} more left out to stay within ${options.maxChars} characters`);
+  }
+  if (cursor) {
+    parts.push(`continue with cursor ${cursor}`);
+  }
+  return parts.join("; ");
+}
+
+/**
+ * Per-column statistics: non-empty cells, distinct values, numeric range and sum, or the values and their counts
+ */
+function summarize(rows: any[]): string[] {
+  return rowColumns(rows).map((field) => {
+    const values = rows.map((row) => row?.[field]).filter((value) => value !== undefined && value !== null && value !== "");
+    const counts = new Map<string, number>();
+    values.forEach((value) => counts.set(cellText(value), (counts.get(cellText(value)) ?? 0) + 1));
+    const parts = [`${values.length} non-empty`, `${counts.size} distinct`];
+
+    const numbers = values.map(Number);
+    if (values.length > 0 && values.every((value) => typeof value === "number" || (typeof value === "string" && value.trim() !== "")) && numbers.every(Number.isFinite)) {
+      const sum = numbers.reduce((total, n) => total + n, 0);
+      parts.push(`${Math.min(...numbers)} to ${Math.max(...numbers)}`, `sum ${Number(sum.toPrecision(15))}`);
+    } else if (counts.size > 0 && counts.size <= SUMMARY_MAX_VALUES) {
+      parts.push([...counts].sort((a, b) => b[1] - a[1]).map(([value, count]) => `${value.slice(0, 40)} (${count})`).join(", "));
+    } else if (counts.size > 0) {
+      parts.push(`e.g. ${[...counts.keys()].slice(0, 3).map((value) => value.slice(0, 40)).join(", ")}`);
+    }
+    return `- ${field}: ${parts.join(", ")}`;
+  });
+}
+
+/**
+ * Rows as text blocks: the rows in the requested format, then a line on the row
+ * count and the cursor for the formats that cannot carry them
+ */
+function render(result: RowResult, rows: any[], omitted: number, cursor: string | undefined, options: FormatOptions): string[] {
+  const { list, nextCursor, ...meta } = result;
+  const total = totalRows(result);
+  const columns = rowColumns(rows);
+
+  switch (options.format) {
+    case "json":
+      return [JSON.stringify({ ...result, list: rows, nextCursor: cursor, ...(omitted > 0 ? { omittedRows: omitted } : {}) }, null, 2)];
+    case "compact":
+      return [JSON.stringify({
+        ...meta,
+        columns,
+        rows: rows.map((row) => columns.map((column) => row?.[column] ?? null)),
+        nextCursor: cursor,
+        ...(omitted > 0 ? { omittedRows: omitted } : {})
+      })];
+    case "markdown":
+      return [
+        [
+          `| ${columns.map(markdownCell).join(" | ")} |`,
+          `|${columns.map(() => " --- |").join("")}`,
+          ...rows.map((row) => `| ${columns.map((column) => markdownCell(row?.[column])).join(" | ")} |`)
+        ].join("\n"),
+        describe(rows.length, total, omitted, cursor, options)
+      ];
+    default:
+      return [
+        [columns, ...rows.map((row) => columns.map((column) => row?.[column]))]
+          .map((cells) => cells.map((cell) => csvCell(cell, ",")).join(","))
+          .join("\n"),
+        describe(rows.length, total, omitted, cursor, options)
+      ];
+  }
+}
+
+/**
+ * Render rows read by a tool within the character budget. Rows that do not fit are
+ * left out from the end (at least one row is kept) and the cursor points at the first of them
+ */
+export function formatRows(result: RowResult, window: RowWindow, options: FormatOptions): string[] {
+  const rows = dropNoise(result.list, options, window.columns);
+  const size = (texts: string[]) => texts.reduce((length, text) => length + text.length, 0);
+
+  if (options.format === "summary") {
+    // A summary covers every row read; only its column lines are cut
+    const head = describe(rows.length, totalRows(result), 0, result.nextCursor, options);
+    const lines = summarize(rows);
+    let kept = lines.length;
+    while (kept > 0 && size([head, ...lines.slice(0, kept)]) > options.maxChars) kept--;
+    const more = kept < lines.length ? [`... ${lines.length - kept} more column(s)`] : [];
+    return [[head, ...lines.slice(0, kept), ...more].join("\n")];
+  }
+
+  let kept = rows.length;
+  let texts = render(result, rows, 0, result.nextCursor, options);
+  while (kept > 1 && size(texts) > options.maxChars) {
+    // Shrink in proportion to the overflow, by at least one row
+    kept = Math.max(1, Math.min(kept - 1, Math.floor(kept * options.maxChars / size(texts))));
+    const cursor = encodeCursor({ offset: window.offset + kept, limit: window.limit });
+    texts = render(result, rows.slice(0, kept), rows.length - kept, cursor, options);
+  }
+  return texts;
+}
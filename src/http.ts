@@ -0,0 +1,222 @@
+/**
+ * HTTP surface for the NocoDB MCP server
+ *
+ * Serves the generated OpenAPI spec and tool manifest, and exposes every MCP tool
+ * as `POST /tools/<name>` so GPT actions get the same behaviour as stdio clients.
+ * MCP clients can also connect over SSE under `/mcp` (see mcpHttp.ts), and
+ * `POST /ask` answers natural-language questions with the same tools (see ask.ts).
+ * Everything except the specs requires a bearer API key when keys are configured.
+ */
+import express, { NextFunction, Request, Response } from "express";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { NaturalQueryClient } from "./ask.js";
+import { ApiKey, bearerAuth, loadApiKeys } from "./auth.js";
+import { MCP_TRANSPORT, PUBLIC_BASE_URL } from "./config.js";
+import type { NocoDBServer } from "./index.js";
+import { createProvider } from "./llm.js";
+import { createMcpRouter } from "./mcpHttp.js";
+import { buildOpenApiSpec, buildToolManifest } from "./openapi.js";
+import { errorReason, NocoDBError } from "./nocodbHttp.js";
+import { PolicyViolationError } from "./policy.js";
+import type { ToolResult } from "./registry.js";
+
+/**
+ * Map an MCP error code to the HTTP status returned to the caller
+ */
+function statusForErrorCode(code: number): number {
+  switch (code) {
+    case ErrorCode.MethodNotFound:
+      return 404;
+    case ErrorCode.InvalidParams:
+    case ErrorCode.InvalidRequest:
+    case ErrorCode.ParseError:
+      return 400;
+    default:
+      return 500;
+  }
+}
+
+/**
+ * HTTP status for a failed NocoDB call: the caller's mistakes keep their 4xx,
+ * NocoDB's own failures (including a rejected server token) become 502/504
+ */
+function statusForNocoDBError(error: NocoDBError): number {
+  if (error.code === ErrorCode.RequestTimeout) {
+    return 504;
+  }
+  if (error.status !== undefined && [400, 404, 409, 422, 429].includes(error.status)) {
+    return error.status;
+  }
+  return 502;
+}
+
+/**
+ * HTTP status for a tool's error result: its errorCode like a thrown McpError,
+ * except that a tool failing on its own (InternalError, the default) is reported as 502
+ */
+function statusForResult(result: ToolResult): number {
+  const code = result.errorCode ?? ErrorCode.InternalError;
+  return code === ErrorCode.InternalError ? 502 : statusForErrorCode(code);
+}
+
+/**
+ * Send an error envelope
+ */
+function sendError(res: Response, status: number, tool: string | undefined, code: number, message: string, details?: unknown) {
+  res.status(status).json({
+    ok: false,
+    tool,
+    error: { code, message, ...(details !== undefined ? { details } : {}) }
+  });
+}
+
+/**
+ * Check the request body against the tool input schema (object shape and required fields)
+ */
+function validateArgs(schema: any, body: unknown): string | undefined {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return "Request body must be a JSON object";
+  }
+  const missing = (schema?.required || []).filter((key: string) => (body as any)[key] === undefined);
+  if (missing.length > 0) {
+    return `Missing required field(s): ${missing.join(", ")}`;
+  }
+  return undefined;
+}
+
+/**
+ * Build the Express app that serves the static specs and the /tools/* routes
+ */
+export function createHttpApp(nocodb: NocoDBServer) {
+  const app = express();
+  const apiKeys = loadApiKeys();
+  const authEnabled = apiKeys.length > 0;
+
+  if (!authEnabled) {
+    console.error("HTTP authentication disabled: no API keys configured (API_KEYS / API_KEYS_FILE)");
+  }
+
+  const provider = createProvider();
+  const asker = provider ? new NaturalQueryClient(nocodb, provider) : undefined;
+  console.error(provider ? `POST /ask enabled (LLM provider: ${provider.name})` : "POST /ask disabled: no LLM provider configured (LLM_PROVIDER)");
+
+  // The specs stay public so GPT actions can discover the API before authenticating
+  app.get("/openapi.json", (req, res) => {
+    res.json(buildOpenApiSpec(nocodb.describeTools(), PUBLIC_BASE_URL, authEnabled));
+  });
+
+  // JSON is valid YAML 1.2, so the same document is served under the .yaml name GPT actions expect
+  app.get("/openapi.yaml", (req, res) => {
+    res.type("application/yaml").send(JSON.stringify(buildOpenApiSpec(nocodb.describeTools(), PUBLIC_BASE_URL, authEnabled), null, 2));
+  });
+
+  app.get("/openai-tool-manifest.json", (req, res) => {
+    res.json(buildToolManifest(PUBLIC_BASE_URL, authEnabled));
+  });
+
+  app.use(bearerAuth(apiKeys));
+
+  // MCP over SSE is mounted before the JSON parser: its transport reads the raw body
+  if (MCP_TRANSPORT !== "stdio") {
+    app.use("/mcp", createMcpRouter(nocodb));
+  }
+
+  app.use(express.json());
+
+  app.post("/tools/:toolName", async (req, res) => {
+    const toolName = req.params.toolName;
+    const tool = nocodb.tools.get(toolName);
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+
+    if (!tool) {
+      sendError(res, 404, toolName, ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
+      return;
+    }
+
+    // Scopes are checked against the resolved project ID and table title; a missing
+    // projectId may come from the connection's default base, so it is resolved before validation.
+    // A request without a body is a call without arguments
+    const args = await nocodb.resolveTarget(req.body ?? {}, tool);
+
+    const validationError = validateArgs(tool.inputSchema, args);
+    if (validationError) {
+      sendError(res, 400, toolName, ErrorCode.InvalidParams, validationError);
+      return;
+    }
+    const denied = apiKey ? await nocodb.checkAccess(apiKey, tool, args) : undefined;
+    if (denied) {
+      sendError(res, 403, toolName, ErrorCode.InvalidRequest, `Forbidden: ${denied}`);
+      return;
+    }
+
+    try {
+      const result = await nocodb.callTool(toolName, args, { transport: "http", apiKey: apiKey?.name });
+
+      if (result.isError) {
+        // The tool ran but reported a failure: the caller's input (4xx) or its own or NocoDB's (502)
+        const message = result.content?.[0]?.text || "Tool execution failed";
+        sendError(res, statusForResult(result), toolName, result.errorCode ?? ErrorCode.InternalError, message);
+        return;
+      }
+
+      res.json({
+        ok: true,
+        tool: toolName,
+        content: result.content
+      });
+    } catch (error: any) {
+      if (error instanceof PolicyViolationError) {
+        sendError(res, 403, toolName, error.code, error.message);
+        return;
+      }
+      if (error instanceof NocoDBError) {
+        sendError(res, statusForNocoDBError(error), toolName, error.code, error.message, error.data);
+        return;
+      }
+      if (error instanceof McpError) {
+        sendError(res, statusForErrorCode(error.code), toolName, error.code, error.message, error.data);
+        return;
+      }
+      sendError(res, 500, toolName, ErrorCode.InternalError, error.message);
+    }
+  });
+
+  app.post("/ask", async (req, res) => {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    const { question, readOnly, connection, maxSteps } = req.body || {};
+
+    if (!asker) {
+      sendError(res, 503, undefined, ErrorCode.InternalError, "Natural-language questions are disabled: set LLM_PROVIDER (openai or stub)");
+      return;
+    }
+    if (typeof question !== "string" || !question.trim()) {
+      sendError(res, 400, undefined, ErrorCode.InvalidParams, "Missing required field(s): question");
+      return;
+    }
+
+    try {
+      const result = await asker.processNaturalQuery(question, {
+        caller: { transport: "http", apiKey: apiKey?.name },
+        apiKey,
+        readOnly: readOnly === true,
+        connection,
+        maxSteps
+      });
+      res.json({ ok: true, ...result });
+    } catch (error: any) {
+      // Tool failures are handed to the model; what gets here is the provider failing
+      sendError(res, 502, undefined, ErrorCode.InternalError, `LLM provider error: ${errorReason(error)}`);
+    }
+  });
+
+  // Malformed JSON bodies and anything else thrown by the middleware stack
+  app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+    if (error?.type === "entity.parse.failed") {
+      sendError(res, 400, undefined, ErrorCode.ParseError, "Invalid JSON body");
+      return;
+    }
+    sendError(res, 500, undefined, ErrorCode.InternalError, error?.message || "Internal error");
+  });
+
+  return app;
+}
@@ -0,0 +1,512 @@
+/**
+ * Import of CSV, JSON and NDJSON content into a table
+ *
+ * Headers are mapped onto the columns of an existing table, or a new table is
+ * created with column types inferred from the values. Each row is coerced to the
+ * column types and checked against the schema; valid rows are inserted in bulk
+ * and the answer is a per-row report.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { rowChanges, snapshotRows } from "./audit.js";
+import { BULK_OPTION_PROPERTIES, bulkInsert, BulkReport, bulkOptions, idsWithStatus, reportResult, RowResult } from "./bulkTools.js";
+import { normalizeName } from "./metadata.js";
+import { primaryKeyOf, TableMeta, TableRef } from "./nocodbClient.js";
+import { checkRow, DRY_RUN_PROPERTY, previewInsert, RowPreview } from "./preview.js";
+import { textResult, ToolContext, ToolDefinition } from "./registry.js";
+import { ColumnDefinition, COLUMN_TYPES, createTableWithColumns, LINK_TYPES } from "./schemaTools.js";
+import { coerceValue, COMPUTED_TYPES, DATE, DATE_TIME } from "./validation.js";
+
+type ImportFormat = "csv" | "json" | "ndjson";
+
+const FORMATS: ImportFormat[] = ["csv", "json", "ndjson"];
+
+// A text column becomes a SingleSelect when it has at most this many distinct values, each used twice on average
+const MAX_SELECT_OPTIONS = 10;
+
+interface ParsedRow {
+  values?: Record<string, unknown>;
+  error?: string;
+}
+
+interface ParsedContent {
+  format: ImportFormat;
+  headers: string[];
+  rows: ParsedRow[];
+}
+
+/**
+ * Where a header goes: a column of the table and its type
+ */
+interface ImportColumn {
+  header: string;
+  column: string;
+  uidt: string;
+  options?: string[];
+}
+
+interface ImportPlan {
+  table: TableMeta;
+  columns: ImportColumn[];
+  ignored: { header: string; reason: string }[];
+}
+
+const INTEGER = /^[-+]?(0|[1-9]\d{0,14})$/;
+const DECIMAL = /^[-+]?(0|[1-9]\d*)\.\d+$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+/**
+ * Split CSV content into records of cells (RFC 4180: quoted cells may hold delimiters, quotes and line breaks)
+ */
+function parseCsv(content: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+  // Blank lines are not records
+  return records.filter((r) => r.length > 1 || r[0].trim() !== "");
+}
+
+/**
+ * The most frequent of comma, semicolon and tab in the first line (outside quotes)
+ */
+function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: firstLine.split(d).length - 1 }));
+  return counts.reduce((best, c) => (c.n > best.n ? c : best)).d;
+}
+
+/**
+ * Unique, non-empty header names
+ */
+function uniqueHeaders(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.map((name, index) => {
+    let header = name.trim() || `Column ${index + 1}`;
+    for (let n = 2; seen.has(header.toLowerCase()); n++) {
+      header = `${name.trim() || `Column ${index + 1}`} ${n}`;
+    }
+    seen.add(header.toLowerCase());
+    return header;
+  });
+}
+
+function detectFormat(content: string): ImportFormat {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("[")) {
+    return "json";
+  }
+  if (trimmed.startsWith("{")) {
+    return trimmed.split(/\r?\n/).filter((line) => line.trim()).length > 1 ? "ndjson" : "json";
+  }
+  return "csv";
+}
+
+/**
+ * Parse the content into rows keyed by header. Rows that cannot be read carry an error instead
+ */
+function parseContent(content: string, format: ImportFormat | undefined, delimiter: string | undefined, header: boolean): ParsedContent {
+  content = content.replace(/^\uFEFF/, "");
+  const detected = format ?? detectFormat(content);
+
+  if (detected === "csv") {
+    const records = parseCsv(content, delimiter ?? detectDelimiter(content));
+    const width = Math.max(0, ...records.map((r) => r.length));
+    const headers = uniqueHeaders(header ? records.shift() || [] : Array.from({ length: width }, () => ""));
+    return {
+      format: detected,
+      headers,
+      rows: records.map((cells) => {
+        const extra = cells.slice(headers.length).filter((cell) => cell.trim() !== "");
+        if (extra.length > 0) {
+          return { error: `Row has ${cells.length} cells but there are ${headers.length} headers` };
+        }
+        return { values: Object.fromEntries(headers.map((h, i) => [h, cells[i]])) };
+      })
+    };
+  }
+
+  let items: unknown[];
+  if (detected === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid JSON content: ${error.message}`);
+    }
+    items = Array.isArray(parsed) ? parsed : [parsed];
+  } else {
+    items = content.split(/\r?\n/).filter((line) => line.trim()).map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch (error: any) {
+        return new Error(`Line ${index + 1} is not valid JSON: ${error.message}`);
+      }
+    });
+  }
+
+  // Headers are the keys of all objects, in order of first appearance
+  const headers: string[] = [];
+  const rows: ParsedRow[] = items.map((item) => {
+    if (item instanceof Error) {
+      return { error: item.message };
+    }
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      return { error: "Row is not a JSON object" };
+    }
+    for (const key of Object.keys(item)) {
+      if (!headers.includes(key)) headers.push(key);
+    }
+    return { values: item as Record<string, unknown> };
+  });
+  return { format: detected, headers, rows };
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+const isValidDate = (value: string) => !Number.isNaN(Date.parse(value));
+
+/**
+ * NocoDB column type for a header, from its non-empty values
+ */
+function inferColumn(header: string, values: unknown[]): ImportColumn {
+  const present = values.filter((value) => !isEmpty(value));
+  const all = (test: (value: unknown) => boolean) => present.length > 0 && present.every(test);
+  const str = (value: unknown) => (typeof value === "string" ? value.trim() : undefined);
+  const column = (uidt: string, options?: string[]): ImportColumn => ({ header, column: header, uidt, ...(options ? { options } : {}) });
+
+  if (present.length === 0) {
+    return column("SingleLineText");
+  }
+  if (all((v) => typeof v === "boolean" || /^(true|false|yes|no)$/i.test(str(v) ?? ""))) {
+    return column("Checkbox");
+  }
+  if (all((v) => (typeof v === "number" && Number.isInteger(v)) || INTEGER.test(str(v) ?? ""))) {
+    return column("Number");
+  }
+  if (all((v) => typeof v === "number" || INTEGER.test(str(v) ?? "") || DECIMAL.test(str(v) ?? ""))) {
+    return column("Decimal");
+  }
+  if (all((v) => DATE.test(str(v) ?? "") && isValidDate(str(v)!))) {
+    return column("Date");
+  }
+  if (all((v) => (DATE.test(str(v) ?? "") || DATE_TIME.test(str(v) ?? "")) && isValidDate(str(v)!))) {
+    return column("DateTime");
+  }
+  if (all((v) => EMAIL.test(str(v) ?? ""))) {
+    return column("Email");
+  }
+  if (all((v) => URL_PATTERN.test(str(v) ?? ""))) {
+    return column("URL");
+  }
+  if (present.some((v) => typeof v === "object")) {
+    return column("JSON");
+  }
+  if (present.some((v) => String(v).length > 255 || String(v).includes("\n"))) {
+    return column("LongText");
+  }
+
+  const distinct = [...new Set(present.map((v) => String(v).trim()))];
+  if (distinct.length <= MAX_SELECT_OPTIONS && distinct.length * 2 <= present.length && distinct.every((v) => !v.includes(","))) {
+    return column("SingleSelect", distinct);
+  }
+  return column("SingleLineText");
+}
+
+/**
+ * Value to write into a column of type `uidt`, or why it cannot be written: cells are trimmed,
+ * emails and URLs must look like one, and the rest is coerced like any record write (see validation.ts)
+ */
+function coerce(value: unknown, uidt: string): { value: unknown } | { error: string } {
+  if (isEmpty(value)) {
+    return { value: null };
+  }
+  const raw = typeof value === "string" ? value.trim() : value;
+  const invalid = { error: `${JSON.stringify(value)} is not a valid ${uidt}` };
+
+  switch (uidt) {
+    case "Email":
+      return EMAIL.test(String(raw)) ? { value: raw } : invalid;
+    case "URL":
+      return URL_PATTERN.test(String(raw)) ? { value: raw } : invalid;
+    case "JSON":
+      return { value: raw };
+    default:
+      return coerceValue(raw, { uidt });
+  }
+}
+
+/**
+ * Map headers onto the writable columns of an existing table: explicit mapping first,
+ * then title or column name (case-insensitive), then the same ignoring spaces and punctuation
+ */
+function mapColumns(table: TableMeta, headers: string[], mapping: Record<string, string | null> = {}): ImportPlan {
+  const writable = (table.columns || []).filter((c: any) =>
+    !c.pk && !c.system && !COMPUTED_TYPES.includes(c.uidt) && !LINK_TYPES.includes(c.uidt)
+  );
+  const columns: ImportColumn[] = [];
+  const ignored: ImportPlan["ignored"] = [];
+
+  for (const header of headers) {
+    if (header in mapping && !mapping[header]) {
+      ignored.push({ header, reason: "skipped by columnMapping" });
+      continue;
+    }
+    const wanted = mapping[header] ?? header;
+    const column =
+      writable.find((c: any) => c.title?.toLowerCase() === wanted.toLowerCase() || c.column_name?.toLowerCase() === wanted.toLowerCase()) ??
+      writable.find((c: any) => normalizeName(c.title ?? "") === normalizeName(wanted) || normalizeName(c.column_name ?? "") === normalizeName(wanted));
+
+    if (!column) {
+      const other = (table.columns || []).find((c: any) => c.title?.toLowerCase() === wanted.toLowerCase());
+      ignored.push({ header, reason: other ? `column '${other.title}' is not writable` : `no column '${wanted}' in table ${table.title}` });
+    } else if (columns.some((c) => c.column === column.title)) {
+      ignored.push({ header, reason: `column '${column.title}' is already mapped` });
+    } else {
+      columns.push({ header, column: column.title, uidt: column.uidt });
+    }
+  }
+  return { table, columns, ignored };
+}
+
+/**
+ * Columns of a new table, inferred from the values (columnTypes overrides the inference)
+ */
+function inferTable(tableName: string, parsed: ParsedContent, types: Record<string, string> = {}): ImportPlan {
+  const columns = parsed.headers.map((header) => {
+    const type = types[header];
+    if (type !== undefined && !COLUMN_TYPES.includes(type)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown column type '${type}' for '${header}' in columnTypes`);
+    }
+    const inferred = inferColumn(header, parsed.rows.map((row) => row.values?.[header]));
+    return type === undefined || type === inferred.uidt ? inferred : { header, column: header, uidt: type };
+  });
+
+  // Stand-in metadata, so rows are checked the same way as for an existing table
+  const table: TableMeta = {
+    id: "",
+    title: tableName,
+    table_name: tableName,
+    columns: columns.map((c) => ({
+      title: c.column,
+      column_name: c.column,
+      uidt: c.uidt,
+      ...(c.options ? { colOptions: { options: c.options.map((title) => ({ title })) } } : {})
+    }))
+  } as TableMeta;
+  return { table, columns, ignored: [] };
+}
+
+/**
+ * Record data of one parsed row, with the problems that keep it from being inserted
+ */
+function prepareRow(plan: ImportPlan, row: ParsedRow): { data: Record<string, unknown>; problems: string[] } {
+  if (row.error) {
+    return { data: {}, problems: [row.error] };
+  }
+  const data: Record<string, unknown> = {};
+  const problems: string[] = [];
+  for (const column of plan.columns) {
+    const coerced = coerce(row.values?.[column.header], column.uidt);
+    if ("error" in coerced) {
+      problems.push(`Column '${column.column}': ${coerced.error}`);
+    } else if (coerced.value !== null) {
+      data[column.column] = coerced.value;
+    }
+  }
+  if (problems.length === 0) {
+    problems.push(...checkRow(plan.table, data, "insert").problems);
+  }
+  return { data, problems };
+}
+
+/**
+ * Import tools, registered by NocoDBServer
+ */
+export function importTools(ctx: ToolContext): ToolDefinition[] {
+  return [
+    {
+      name: "import_data",
+      description:
+        "Import CSV, JSON (array of objects) or NDJSON content into a table. Headers are mapped onto the table's columns; " +
+        "when the table does not exist it is created with column types inferred from the values " +
+        "(Number, Decimal, Date, DateTime, Checkbox, Email, URL, SingleSelect, text). Values are coerced to the column types. Returns a per-row report",
+      access: "write",
+      changesSchema: true,
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectId: {
+            type: "string",
+            description: "Project ID or title"
+          },
+          tableName: {
+            type: "string",
+            description: "Table name, title or ID to import into (a new table's name if it does not exist)"
+          },
+          content: {
+            type: "string",
+            description: "The data: CSV text, a JSON array of objects, or one JSON object per line"
+          },
+          format: {
+            type: "string",
+            enum: FORMATS,
+            description: "Format of content (optional, detected when omitted)"
+          },
+          delimiter: {
+            type: "string",
+            description: "CSV delimiter (optional, detected among comma, semicolon and tab)"
+          },
+          header: {
+            type: "boolean",
+            description: "Whether the first CSV line holds the headers (optional, default true; otherwise columns are named 'Column 1', ...)"
+          },
+          columnMapping: {
+            type: "object",
+            description: "Header -> column title of an existing table; null skips the header (optional, headers are matched by name otherwise)"
+          },
+          columnTypes: {
+            type: "object",
+            description: "Header -> column type (uidt) of a new table, overriding the inferred type (optional)"
+          },
+          createTable: {
+            type: "boolean",
+            description: "Create the table when it does not exist (optional, default true)"
+          },
+          ...BULK_OPTION_PROPERTIES,
+          ...DRY_RUN_PROPERTY
+        },
+        required: ["projectId", "tableName", "content"]
+      },
+      handler: async (args) => {
+        if (typeof args.content !== "string") {
+          throw new McpError(ErrorCode.InvalidParams, "content must be a string");
+        }
+        if (args.format !== undefined && !FORMATS.includes(args.format)) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid format '${args.format}' (expected ${FORMATS.join(", ")})`);
+        }
+        const parsed = parseContent(args.content, args.format, args.delimiter, args.header !== false);
+        if (parsed.rows.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "The content has no rows to import");
+        }
+
+        const client = await ctx.getClient();
+        const lower = String(args.tableName).toLowerCase();
+        const existing = (await client.listTables(args.projectId)).find((t) =>
+          t.id === args.tableName || t.title?.toLowerCase() === lower || t.table_name?.toLowerCase() === lower
+        );
+        if (!existing && args.createTable === false) {
+          throw new McpError(ErrorCode.InvalidParams, `Table not found: ${args.tableName} (createTable is false)`);
+        }
+
+        let ref: TableRef | undefined;
+        let plan: ImportPlan;
+        if (existing) {
+          const resolved = await ctx.resolveTable(args.projectId, existing.id);
+          ref = resolved.ref;
+          plan = mapColumns(resolved.table, parsed.headers, args.columnMapping);
+        } else {
+          plan = inferTable(args.tableName, parsed, args.columnTypes);
+        }
+        if (plan.columns.length === 0) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `No header matches a writable column of ${plan.table.title}: ${plan.ignored.map((i) => `${i.header} (${i.reason})`).join("; ")}`
+          );
+        }
+
+        const rows = parsed.rows.map((row) => prepareRow(plan, row));
+        const summary = {
+          format: parsed.format,
+          table: plan.table.title,
+          tableCreated: !existing,
+          columns: plan.columns,
+          ...(plan.ignored.length > 0 ? { ignoredHeaders: plan.ignored } : {})
+        };
+
+        if (args.dryRun) {
+          const previews = rows.map(({ data, problems }, index): RowPreview => {
+            const preview = previewInsert(plan.table, data, index);
+            return { ...preview, problems: [...new Set([...problems, ...preview.problems])] };
+          });
+          const valid = previews.filter((p) => p.problems.length === 0).length;
+          return textResult(
+            `Dry run of import_data: ${existing ? `table ${plan.table.title} exists` : `table ${plan.table.title} would be created with ${plan.columns.length} column(s)`}, ` +
+            `${valid} of ${rows.length} row(s) would be inserted, ${rows.length - valid} with problems. Nothing was written.\n` +
+            JSON.stringify({ dryRun: true, ...summary, rows: previews }, null, 2)
+          );
+        }
+
+        const options = bulkOptions(args);
+        const results: RowResult[] = rows.map(({ problems }, index) =>
+          problems.length > 0 ? { index, status: "failed", error: problems.join("; "), code: ErrorCode.InvalidParams } : { index, status: "skipped" }
+        );
+        const valid = results.filter((r) => r.status === "skipped").map((r) => r.index);
+        const stop = options.stopOnError && valid.length < rows.length;
+
+        let table = plan.table;
+        if (!stop && valid.length > 0) {
+          if (!ref) {
+            const created = await createTableWithColumns(ctx, args.projectId, args.tableName, plan.columns.map((c): ColumnDefinition => ({
+              column_name: c.column,
+              column_type: c.uidt,
+              ...(c.options ? { options: c.options } : {})
+            })));
+            table = await client.getTable(created.id);
+            ref = { baseId: args.projectId, tableId: table.id, title: table.title };
+          }
+
+          const inserted = await bulkInsert(client, ref, primaryKeyOf(table), valid.map((i) => rows[i].data), options);
+          inserted.results.forEach((r) => { results[valid[r.index]] = { ...r, index: valid[r.index] }; });
+
+          const created = idsWithStatus(inserted, "created");
+          const into = ref;
+          await ctx.audit.recordAfterWrite(into, async () => rowChanges(created, new Map(), await snapshotRows(client, table, into, created)));
+        }
+
+        const report: BulkReport & typeof summary = {
+          ...summary,
+          tableCreated: !existing && ref !== undefined,
+          total: rows.length,
+          succeeded: results.filter((r) => r.status === "created").length,
+          failed: results.filter((r) => r.status === "failed").length,
+          skipped: results.filter((r) => r.status === "skipped").length,
+          results
+        };
+        return reportResult(`Import into ${plan.table.title}${report.tableCreated ? " (table created)" : ""}`, report);
+      }
+    }
+  ];
+}
@@ -15,108 +15,112 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
   ErrorCode,
   McpError
 } from "@modelcontextprotocol/sdk/types.js";
-import axios from "axios";
-import * as dotenv from "dotenv";
 import * as path from "path";
 import * as fs from "fs";
-import express from "express"
-
+import {
+  PORT,
+  PAGE_SIZE,
+  MCP_TRANSPORT
+} from "./config.js";
+import { aggregateTools } from "./aggregateTools.js";
+import { AuditLog, Caller, snapshotRows } from "./audit.js";
+import { auditTools } from "./auditTools.js";
+import { ApiKey, checkScope, checkTarget, isToolVisible, ScopeTarget } from "./auth.js";
+import { bulkTools } from "./bulkTools.js";
+import { ConnectionManager } from "./connections.js";
+import { compileQuery, QUERY_SCHEMA_PROPERTIES } from "./filters.js";
+import { exportTools } from "./exportTools.js";
+import { FORMAT_SCHEMA_PROPERTIES, formatOptions, formatRows, RowWindow } from "./format.js";
+import { createHttpApp } from "./http.js";
+import { importTools } from "./importTools.js";
+import { getPrompt, promptAccess, PROMPTS } from "./prompts.js";
+import { expandFields, expandLinks, MAX_EXPAND_DEPTH, MAX_EXPAND_ROWS, relatedTables, relationTools } from "./relationTools.js";
+import { listResources, readResource, resourceAccess, RESOURCE_TEMPLATES } from "./resources.js";
+import {
+  NocoDBClient,
+  primaryKeyOf,
+  TableMeta,
+  TableRef
+} from "./nocodbClient.js";
+import { fetchAll, fetchPage, PageFetcher, PageInfo, pageWindow } from "./pagination.js";
+import { loadPolicy, PolicyEngine, PolicyViolationError } from "./policy.js";
+import { DRY_RUN_PROPERTY, previewDelete, previewInsert, previewResult, previewUpdate } from "./preview.js";
+import { ToolContext, ToolDefinition, ToolDescription, ToolRegistry, ToolResult } from "./registry.js";
+import { schemaTools } from "./schemaTools.js";
+import { upsertTools } from "./upsertTools.js";
+import { RecordValidationError, validateRecord } from "./validation.js";
 
 
-// Importar o arquivo de configuração do dotenv
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
-// Carregar variáveis de ambiente do arquivo .env
-dotenv.config();
-// NocoDB configuration - Lendo do arquivo .env
-const NOCODB_URL = process.env.NOCODB_URL || "http://localhost:8080";
-const NOCODB_AUTH_TOKEN = process.env.NOCODB_AUTH_TOKEN;
-const NOCODB_BASE_ID = process.env.NOCODB_BASE_ID;
-const API_VERSION = process.env.API_VERSION || "v2";
-const PORT = process.env.PORT || 3000;
-
-const app = express();
-
-app.get("/openapi.yaml", (req, res) => {
-  res.sendFile(path.resolve("openapi.yaml"));
-});
-
-app.get("/openai-tool-manifest.json", (req, res) => {
-  res.sendFile(path.resolve("openai-tool-manifest.json"));
-});
-
-
-app.get("/openai-tool-manifest.json", (req, res) => {
-  res.sendFile(path.resolve("openai-tool-manifest.json"));
-});
-
-
-app.listen(PORT, () => {
-  console.log(`MCP rodando em http://localhost:${PORT}`);
-});
-
 
-
-// Log de configuração
+// Log de configuração (as conexões são registradas pelo NocoDBServer)
 console.error("Configuração do servidor NocoDB MCP:");
-console.error(`URL: ${NOCODB_URL}`);
-console.error(`Base ID: ${NOCODB_BASE_ID}`);
-console.error(`API Version: ${API_VERSION}`);
-console.error(`Token: ${NOCODB_AUTH_TOKEN ? "Configurado" : "Não configurado"}`);
+console.error(`MCP transport: ${MCP_TRANSPORT}`);
 
 /**
  * NocoDB MCP Server class
  */
 export class NocoDBServer {
 
-  
-      /**
-       * Executa comandos do NocoDB
-       */
-      async executeCommand(comando: any): Promise<any> {
-          try {
-              switch (comando.action) {
-                  case 'list_projects':
-                      return await this.listProjects();
-                  
-                  case 'list_tables':
-                      return await this.listTables(comando.params);
-                  
-                  case 'query_table':
-                      return await this.queryTable(comando.params);
-                  
-                  case 'insert_record':
-                      return await this.insertRecord(comando.params);
-                  
-                  case 'update_record':
-                      return await this.updateRecord(comando.params);
-                  
-                  case 'delete_record':
-                      return await this.deleteRecord(comando.params);
-                  
-                  case 'query_table_by_name':
-                      return await this.queryTableByName(comando.params);
-                  
-                  default:
-                      throw new Error(`Comando desconhecido: ${comando.action}`);
-              }
-          } catch (error: any) {
-              console.error('Erro ao executar comando:', error);
-              throw error;
-          }
+  /**
+   * Executa comandos do NocoDB ({ action, params }), usando o mesmo registro de ferramentas do MCP
+   */
+  async executeCommand(comando: any): Promise<any> {
+    try {
+      if (!this.registry.get(comando.action)) {
+        throw new Error(`Comando desconhecido: ${comando.action}`);
       }
+      return await this.callTool(comando.action, comando.params || {});
+    } catch (error: any) {
+      console.error('Erro ao executar comando:', error);
+      throw error;
+    }
+  }
 
   private server: Server;
-  private axiosInstance;
+  // NocoDB instances (HTTP client, API client and metadata cache each, see connections.ts)
+  private connections = new ConnectionManager();
+  private registry = new ToolRegistry();
+  private policy = new PolicyEngine(loadPolicy());
+  private audit = new AuditLog();
 
   constructor() {
-    this.server = new Server(
+    // Log connection profiles
+    for (const connection of this.connections.list()) {
+      const { name, url, token, baseId, apiVersion, readOnly } = connection.profile;
+      console.error(
+        `Connection ${name}${name === this.connections.defaultName ? " (default)" : ""}: ${url}, token ${token ? 'provided' : 'not provided'}, ` +
+        `base ID ${baseId ?? "-"}, API version ${apiVersion || "auto"}${readOnly ? ", read-only" : ""}`
+      );
+    }
+
+    // Set up tools and the stdio server
+    this.registerTools();
+    this.server = this.createMcpServer();
+    
+    process.on('SIGINT', async () => {
+      await this.server.close();
+      process.exit(0);
+    });
+  }
+
+  /**
+   * Create an MCP server with all handlers attached.
+   * A server serves a single transport, so each HTTP session gets its own,
+   * limited to the scope of the API key that opened it
+   */
+  createMcpServer(apiKey?: ApiKey, session?: string) {
+    const server = new Server(
       {
         name: "nocodb-server",
         version: "0.1.0",
@@ -125,418 +129,539 @@ export class NocoDBServer {
         capabilities: {
           resources: {},
           tools: {},
+          prompts: {},
         },
       }
     );
 
-    // Create axios instance for NocoDB API
-    this.axiosInstance = axios.create({
-      baseURL: NOCODB_URL,
-      headers: {
-        'xc-token': NOCODB_AUTH_TOKEN,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      }
+    this.setupResourceHandlers(server, apiKey);
+    this.setupToolHandlers(server, apiKey, session);
+    this.setupPromptHandlers(server, apiKey);
+
+    // Error handling
+    server.onerror = (error) => console.error('[MCP Error]', error);
+
+    return server;
+  }
+
+  /**
+   * Set up resource handlers for NocoDB (see resources.ts for the URIs).
+   * Reads are checked like the tool calls returning the same data
+   */
+  private setupResourceHandlers(server: Server, apiKey?: ApiKey) {
+    // List available resources (projects and tables of every connection, within the key's scope), one page at a time
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+      listResources(
+        this.connections,
+        request.params?.cursor,
+        (projectId, tableName) => !apiKey || checkTarget(apiKey, { projectId, tableName }) === undefined
+      )
+    );
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES
+    }));
+
+    // Read resource content (project, table rows or schema, record, view)
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const allowed = await this.authorizeRead(resourceAccess(this.connections, request.params.uri), apiKey);
+      return readResource(this.connections, request.params.uri, allowed?.limit);
     });
+  }
 
-    // Log connection attempt
-    console.error(`Attempting to connect to NocoDB at ${NOCODB_URL} with token: ${NOCODB_AUTH_TOKEN ? 'Provided' : 'Not provided'}`);
-    console.error(`Using base ID: ${NOCODB_BASE_ID}`);
-    console.error(`Using API version: ${API_VERSION}`);
+  /**
+   * Set up prompt handlers (see prompts.ts). Prompts are checked like the tool calls reading the data they embed
+   */
+  private setupPromptHandlers(server: Server, apiKey?: ApiKey) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS
+    }));
 
-    // Set up handlers
-    this.setupResourceHandlers();
-    this.setupToolHandlers();
-    
-    // Error handling
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const allowed = await this.authorizeRead(promptAccess(request.params.name, request.params.arguments), apiKey);
+      return getPrompt(this.connections, request.params.name, request.params.arguments, allowed?.limit);
     });
   }
 
   /**
-   * Set up resource handlers for NocoDB
+   * Check a resource read or a prompt as the tool call reading the same data (see resourceAccess
+   * and promptAccess): the policy applies to every caller, the API key scope to HTTP callers.
+   * Returns the arguments the policy allows, as for a tool call (row limits capped)
    */
-  private setupResourceHandlers() {
-    // List available resources (databases and tables)
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      try {
-        // Get list of projects (databases)
-        const projectsResponse = await this.axiosInstance.get('/api/v1/db/meta/projects');
-        const projects = projectsResponse.data.list || [];
-        
-        const resources = [];
-        
-        // Add each project as a resource
-        for (const project of projects) {
-          resources.push({
-            uri: `nocodb://project/${project.id}`,
-            mimeType: "application/json",
-            name: project.title,
-            description: `NocoDB project: ${project.title}`
-          });
-          
-          // Get tables for this project
-          try {
-            const tablesResponse = await this.axiosInstance.get(`/api/v1/db/meta/projects/${project.id}/tables`);
-            const tables = tablesResponse.data.list || [];
-            
-            // Add each table as a resource
-            for (const table of tables) {
-              resources.push({
-                uri: `nocodb://table/${project.id}/${table.id}`,
-                mimeType: "application/json",
-                name: table.title,
-                description: `Table ${table.title} in project ${project.title}`
-              });
-            }
-          } catch (error: any) {
-            console.error(`Erro Não conhecido ao buscar Tabelas do projeto ${project.id}:`, error);
-          }
-        }
-        
-        return { resources };
-      } catch (error: any) {
-        console.error("Erro Não conhecido ao listar recursos:", error);
-        return { resources: [] };
+  private async authorizeRead(access: { tool: string; args: Record<string, string> } | undefined, apiKey?: ApiKey) {
+    const tool = access && this.registry.get(access.tool);
+    if (!access || !tool) {
+      return undefined;
+    }
+    const target = await this.resolveTarget(access.args, tool);
+    const denied = apiKey ? await this.checkAccess(apiKey, tool, target) : undefined;
+    if (denied) {
+      throw new McpError(ErrorCode.InvalidRequest, `Forbidden: ${denied}`);
+    }
+    return this.policy.enforce(tool, target);
+  }
+
+  /**
+   * Set up tool handlers for NocoDB operations
+   */
+  private setupToolHandlers(server: Server, apiKey?: ApiKey, session?: string) {
+    const caller: Caller = session
+      ? { transport: "sse", apiKey: apiKey?.name, session }
+      : { transport: "stdio" };
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.describeTools(apiKey)
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const toolName = request.params.name;
+      const args = request.params.arguments || {};
+
+      const tool = this.registry.get(toolName);
+      const target = tool ? await this.resolveTarget(args, tool) : args;
+      const denied = apiKey && tool ? await this.checkAccess(apiKey, tool, target) : undefined;
+      if (denied) {
+        throw new McpError(ErrorCode.InvalidRequest, `Forbidden: ${denied}`);
       }
+
+      return this.callTool(toolName, target, caller);
     });
+  }
+
+  /**
+   * Check a call against an API key's scope, including the tables it reaches through relations
+   * (see relatedTables). `target` is the call's arguments after resolveTarget. Returns the reason when it is not allowed
+   */
+  async checkAccess(apiKey: ApiKey, tool: ToolDefinition, target: any): Promise<string | undefined> {
+    const denied = checkScope(apiKey, tool, target);
+    if (denied || (!apiKey.projects && !apiKey.tables) || typeof target?.tableName !== "string") {
+      return denied;
+    }
+    let linked: ScopeTarget[];
+    try {
+      const { metadata } = this.connections.get(target.connection);
+      const { table, ref } = await metadata.resolveTable(target.projectId, target.tableName);
+      linked = await relatedTables(metadata, table, ref, target);
+    } catch {
+      // A table that does not resolve reaches nothing; the call fails on it
+      return undefined;
+    }
+    return checkScope(apiKey, tool, target, linked);
+  }
+
+  /**
+   * Tools visible to a caller: enabled by the policy and, for HTTP callers, within the API key scope
+   */
+  describeTools(apiKey?: ApiKey): ToolDescription[] {
+    return this.registry.list()
+      .filter((tool) => this.policy.isToolEnabled(tool) && (!apiKey || isToolVisible(apiKey, tool)))
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: this.withConnectionArg(this.policy.describeSchema(tool))
+      }));
+  }
+
+  /**
+   * Advertise the `connection` argument every tool accepts
+   */
+  private withConnectionArg(schema: ToolDefinition["inputSchema"]): ToolDefinition["inputSchema"] {
+    return {
+      ...schema,
+      properties: {
+        ...schema.properties,
+        ...this.connections.schemaProperty()
+      }
+    };
+  }
+
+  /**
+   * Run a tool by name. Shared by the MCP CallTool handler, executeCommand and the HTTP routes.
+   * The policy is enforced and write calls are audited here, so both apply to every caller
+   */
+  async callTool(toolName: string, args: any, caller: Caller = { transport: "command" }): Promise<ToolResult> {
+    const tool = this.registry.get(toolName);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
+    }
+
+    const connection = this.connections.get(args?.connection);
+    // The connection is recorded by name in the audit log
+    const target = { ...(await this.resolveTarget(args, tool)), connection: connection.name };
+    if (connection.profile.readOnly && tool.access === "write") {
+      throw new PolicyViolationError(`connection ${connection.name} is read-only; ${tool.name} changes data`);
+    }
+    const allowedArgs = this.policy.enforce(tool, target);
+
+    return this.connections.run(connection, () => this.runTool(tool, allowedArgs, caller));
+  }
 
-    // Read resource content (project or table data)
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const uri = request.params.uri;
+  /**
+   * Run a tool handler on the active connection; errors other than MCP errors become error results
+   */
+  private async runTool(tool: ToolDefinition, allowedArgs: any, caller: Caller): Promise<ToolResult> {
+    const toolName = tool.name;
+    try {
+      return await this.audit.track(tool, allowedArgs, caller, () => tool.handler(allowedArgs));
+    } catch (error: any) {
+      console.error(`Error executing tool ${toolName}:`, error);
       
-      // Parse URI to determine what to fetch
-      if (uri.startsWith("nocodb://project/")) {
-        // Fetch project details
-        const projectId = uri.replace("nocodb://project/", "");
-        try {
-          const projectResponse = await this.axiosInstance.get(`/api/v1/db/meta/projects/${projectId}`);
-          const tablesResponse = await this.axiosInstance.get(`/api/v1/db/meta/projects/${projectId}/tables`);
-          
-          const projectData = {
-            ...projectResponse.data,
-            tables: tablesResponse.data.list || []
-          };
-          
-          return {
-            contents: [{
-              uri: uri,
-              mimeType: "application/json",
-              text: JSON.stringify(projectData, null, 2)
-            }]
-          };
-        } catch (error: any) {
-          throw new McpError(ErrorCode.InternalError, `Erro Não conhecido ao buscar projeto: ${error.message}`);
-        }
-      } else if (uri.startsWith("nocodb://table/")) {
-        // Fetch table data
-        const parts = uri.replace("nocodb://table/", "").split("/");
-        const projectId = parts[0];
-        const tableId = parts[1];
-        
-        try {
-          // Get table metadata
-          const tableResponse = await this.axiosInstance.get(`/api/v1/db/meta/tables/${tableId}`);
-          
-          // Get table records
-          const recordsResponse = await this.axiosInstance.get(`/api/v1/db/data/noco/${projectId}/${tableResponse.data.title}`);
-          
-          return {
-            contents: [{
-              uri: uri,
-              mimeType: "application/json",
-              text: JSON.stringify({
-                metadata: tableResponse.data,
-                records: recordsResponse.data.list || []
-              }, null, 2)
-            }]
-          };
-        } catch (error: any) {
-          throw new McpError(ErrorCode.InternalError, `Erro ao buscar dados da tabela: ${error.message}`);
-        }
-      } else {
-        throw new McpError(ErrorCode.InvalidRequest, `Formato de URI inválido: ${uri}`);
+      if (error instanceof McpError) {
+        throw error;
       }
-    });
+      
+      return {
+        content: [{
+          type: "text",
+          text: `Error: ${error.message}`
+        }],
+        isError: true,
+        errorCode: ErrorCode.InternalError
+      };
+    } finally {
+      if (tool.changesSchema) {
+        this.metadata.invalidate();
+      }
+    }
   }
 
   /**
-   * Set up tool handlers for NocoDB operations
+   * Rewrite `projectId` to the project ID and `tableName` to the table title, so API key
+   * scopes and policy rules match however the caller named them. A tool taking a
+   * `projectId` gets the connection's default base when the caller gives none, and a
+   * table named without a project gets the project it was found in.
+   * Names that do not resolve, and unknown connections, are left as given (the tool reports them)
    */
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: "list_projects",
-          description: "List all NocoDB projects (databases)",
-          inputSchema: {
-            type: "object",
-            properties: {}
-          }
-        },
-        {
-          name: "create_project",
-          description: "Create a new NocoDB project (database)",
-          inputSchema: {
-            type: "object",
-            properties: {
-              title: {
-                type: "string",
-                description: "Project title"
-              },
-              description: {
-                type: "string",
-                description: "Project description (optional)"
-              }
-            },
-            required: ["title"]
+  async resolveTarget(args: any, tool?: ToolDefinition): Promise<any> {
+    if (!args || typeof args !== "object" || Array.isArray(args)) {
+      return args;
+    }
+    const target = { ...args };
+    try {
+      const connection = this.connections.get(args.connection);
+      if (target.projectId === undefined && connection.profile.baseId && tool?.inputSchema.properties?.projectId) {
+        target.projectId = connection.profile.baseId;
+      }
+      if (typeof target.projectId === "string") {
+        target.projectId = (await connection.metadata.resolveBase(target.projectId)).id;
+      }
+      if (typeof args.tableName === "string") {
+        const { table, ref } = await connection.metadata.resolveTable(target.projectId, args.tableName);
+        target.tableName = table.title;
+        target.projectId = target.projectId ?? ref.baseId;
+      }
+    } catch {
+      // unresolved names are passed through
+    }
+    return target;
+  }
+
+  /**
+   * Metadata cache of the active connection
+   */
+  private get metadata() {
+    return this.connections.active().metadata;
+  }
+
+  /**
+   * The tool registry (MCP tool list, HTTP routes and generated specs are built from it)
+   */
+  get tools() {
+    return this.registry;
+  }
+
+  /**
+   * Register every tool this server exposes
+   */
+  private registerTools() {
+    this.registry.register({
+      name: "list_connections",
+      description: "List the NocoDB connection profiles this server can use; pass a name as `connection` to any tool",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: {}
+      },
+      handler: () => this.listConnections()
+    });
+
+    this.registry.register({
+      name: "list_projects",
+      description: "List all NocoDB projects (databases)",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: {}
+      },
+      handler: () => this.listProjects()
+    });
+
+    this.registry.register({
+      name: "create_project",
+      description: "Create a new NocoDB project (database)",
+      access: "write",
+      changesSchema: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          title: {
+            type: "string",
+            description: "Project title"
+          },
+          description: {
+            type: "string",
+            description: "Project description (optional)"
           }
         },
-        {
-          name: "list_tables",
-          description: "List all tables in a NocoDB project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              projectId: {
-                type: "string",
-                description: "Project ID"
-              }
-            },
-            required: ["projectId"]
+        required: ["title"]
+      },
+      handler: (args) => this.createProject(args)
+    });
+
+    this.registry.register({
+      name: "list_tables",
+      description: "List all tables in a NocoDB project",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectId: {
+            type: "string",
+            description: "Project ID or title"
           }
         },
-        {
-          name: "create_table",
-          description: "Create a new table in a NocoDB project",
-          inputSchema: {
-            type: "object",
-            properties: {
-              projectId: {
-                type: "string",
-                description: "Project ID"
-              },
-              tableName: {
-                type: "string",
-                description: "Table name"
-              },
-              columns: {
-                type: "array",
-                description: "Column definitions",
-                items: {
-                  type: "object",
-                  properties: {
-                    column_name: {
-                      type: "string",
-                      description: "Column name"
-                    },
-                    column_type: {
-                      type: "string",
-                      description: "Column type (e.g., 'SingleLineText', 'Number', 'Date', etc.)"
-                    },
-                    is_primary: {
-                      type: "boolean",
-                      description: "Whether this column is the primary key"
-                    }
-                  },
-                  required: ["column_name", "column_type"]
-                }
-              }
-            },
-            required: ["projectId", "tableName", "columns"]
+        required: ["projectId"]
+      },
+      handler: (args) => this.listTables(args)
+    });
+
+    this.registry.register({
+      name: "query_table",
+      description: "Query records from a table",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectId: {
+            type: "string",
+            description: "Project ID or title"
+          },
+          tableName: {
+            type: "string",
+            description: "Table name, title or ID"
+          },
+          ...QUERY_SCHEMA_PROPERTIES,
+          limit: {
+            type: "number",
+            description: "Maximum number of records to return (optional)"
+          },
+          cursor: {
+            type: "string",
+            description: "nextCursor from a previous result, to read the following page (optional)"
+          },
+          fetch_all: {
+            type: "boolean",
+            description: "Follow every page and return all matching rows, up to the server's row/byte cap (optional)"
+          },
+          ...FORMAT_SCHEMA_PROPERTIES,
+          expand: {
+            type: "number",
+            description:
+              `Replace relation columns with the linked records, up to this depth (optional, 1-${MAX_EXPAND_DEPTH}). ` +
+              `At most ${MAX_EXPAND_ROWS} rows are read per call, fetch_all included; continue with nextCursor`
+          },
+          offset: {
+            type: "number",
+            description: "Number of records to skip (optional)"
           }
         },
-        {
-          name: "query_table",
-          description: "Query records from a table",
-          inputSchema: {
+        required: ["projectId", "tableName"]
+      },
+      handler: (args) => this.queryTable(args)
+    });
+
+    this.registry.register({
+      name: "insert_record",
+      description:
+        "Insert a new record into a table. The data is checked against the columns first (unknown columns, required values, select options) " +
+        "and values are coerced where safe (number strings, yes/no for checkboxes, dates such as 'tomorrow' or 'March 3'); problems come back as a list",
+      access: "write",
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectId: {
+            type: "string",
+            description: "Project ID or title"
+          },
+          tableName: {
+            type: "string",
+            description: "Table name, title or ID"
+          },
+          data: {
             type: "object",
-            properties: {
-              projectId: {
-                type: "string",
-                description: "Project ID"
-              },
-              tableName: {
-                type: "string",
-                description: "Table name"
-              },
-              filters: {
-                type: "object",
-                description: "Filter conditions (optional)"
-              },
-              limit: {
-                type: "number",
-                description: "Maximum number of records to return (optional)"
-              },
-              offset: {
-                type: "number",
-                description: "Number of records to skip (optional)"
-              }
-            },
-            required: ["projectId", "tableName"]
-          }
+            description: "Record data (column name -> value)"
+          },
+          ...DRY_RUN_PROPERTY
         },
-        {
-          name: "insert_record",
-          description: "Insert a new record into a table",
-          inputSchema: {
+        required: ["projectId", "tableName", "data"]
+      },
+      handler: (args) => this.insertRecord(args)
+    });
+
+    this.registry.register({
+      name: "update_record",
+      description: "Update an existing record in a table. The data is checked and coerced like insert_record's",
+      access: "write",
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectId: {
+            type: "string",
+            description: "Project ID or title"
+          },
+          tableName: {
+            type: "string",
+            description: "Table name, title or ID"
+          },
+          recordId: {
+            type: "string",
+            description: "Record ID to update"
+          },
+          data: {
             type: "object",
-            properties: {
-              projectId: {
-                type: "string",
-                description: "Project ID"
-              },
-              tableName: {
-                type: "string",
-                description: "Table name"
-              },
-              data: {
-                type: "object",
-                description: "Record data (column name -> value)"
-              }
-            },
-            required: ["projectId", "tableName", "data"]
-          }
+            description: "Updated record data (column name -> value)"
+          },
+          ...DRY_RUN_PROPERTY
         },
-        {
-          name: "update_record",
-          description: "Update an existing record in a table",
-          inputSchema: {
-            type: "object",
-            properties: {
-              projectId: {
-                type: "string",
-                description: "Project ID"
-              },
-              tableName: {
-                type: "string",
-                description: "Table name"
-              },
-              recordId: {
-                type: "string",
-                description: "Record ID to update"
-              },
-              data: {
-                type: "object",
-                description: "Updated record data (column name -> value)"
-              }
-            },
-            required: ["projectId", "tableName", "recordId", "data"]
-          }
+        required: ["projectId", "tableName", "recordId", "data"]
+      },
+      handler: (args) => this.updateRecord(args)
+    });
+
+    this.registry.register({
+      name: "delete_record",
+      description: "Delete a record from a table",
+      access: "write",
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectId: {
+            type: "string",
+            description: "Project ID or title"
+          },
+          tableName: {
+            type: "string",
+            description: "Table name, title or ID"
+          },
+          recordId: {
+            type: "string",
+            description: "Record ID to delete"
+          },
+          ...DRY_RUN_PROPERTY
         },
-        {
-          name: "delete_record",
-          description: "Delete a record from a table",
-          inputSchema: {
-            type: "object",
-            properties: {
-              projectId: {
-                type: "string",
-                description: "Project ID"
-              },
-              tableName: {
-                type: "string",
-                description: "Table name"
-              },
-              recordId: {
-                type: "string",
-                description: "Record ID to delete"
-              }
-            },
-            required: ["projectId", "tableName", "recordId"]
-          }
+        required: ["projectId", "tableName", "recordId"]
+      },
+      handler: (args) => this.deleteRecord(args)
+    });
+
+    this.registry.register({
+      name: "query_table_by_name",
+      description: "Query records from a table by table name directly",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tableName: {
+            type: "string",
+            description: "Table ID, title or name, searched in every project (e.g., m1thx9m7x7e5nds or Customers)"
+          },
+          ...QUERY_SCHEMA_PROPERTIES,
+          limit: {
+            type: "number",
+            description: "Maximum number of records to return (optional)"
+          },
+          cursor: {
+            type: "string",
+            description: "nextCursor from a previous result, to read the following page (optional)"
+          },
+          fetch_all: {
+            type: "boolean",
+            description: "Follow every page and return all matching rows, up to the server's row/byte cap (optional)"
+          },
+          ...FORMAT_SCHEMA_PROPERTIES
         },
-        {
-          name: "query_table_by_name",
-          description: "Query records from a table by table name directly",
-          inputSchema: {
-            type: "object",
-            properties: {
-              tableName: {
-                type: "string",
-                description: "Table name (e.g., m1thx9m7x7e5nds)"
-              },
-              limit: {
-                type: "number",
-                description: "Maximum number of records to return (optional)"
-              }
-            },
-            required: ["tableName"]
-          }
-        }
-      ]
-    }));
+        required: ["tableName"]
+      },
+      handler: (args) => this.queryTableByName(args)
+    });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const toolName = request.params.name;
-      const args = request.params.arguments || {};
+    const context: ToolContext = {
+      getClient: () => this.getClient(),
+      resolveTable: (projectId, tableName) => this.resolveTable(projectId, tableName),
+      audit: this.audit
+    };
+
+    for (const tool of [
+      ...schemaTools(context),
+      ...bulkTools(context),
+      ...upsertTools(context),
+      ...importTools(context),
+      ...exportTools(context),
+      ...aggregateTools(context),
+      ...relationTools(context),
+      ...auditTools(context)
+    ]) {
+      this.registry.register(tool);
+    }
+  }
 
-      try {
-        switch (toolName) {
-          case "list_projects":
-            return await this.listProjects();
-          
-          case "create_project":
-            return await this.createProject(args);
-          
-          case "list_tables":
-            return await this.listTables(args);
-          
-          case "create_table":
-            return await this.createTable(args);
-          
-          case "query_table":
-            return await this.queryTable(args);
-          
-          case "insert_record":
-            return await this.insertRecord(args);
-          
-          case "update_record":
-            return await this.updateRecord(args);
-          
-          case "delete_record":
-            return await this.deleteRecord(args);
-          
-          case "query_table_by_name":
-            return await this.queryTableByName(args);
-          
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
-        }
-      } catch (error: any) {
-        console.error(`Error executing tool ${toolName}:`, error);
-        
-        if (error instanceof McpError) {
-          throw error;
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error.message}`
-          }],
-          isError: true
-        };
-      }
-    });
+  /**
+   * NocoDB client of the active connection
+   */
+  private getClient(): Promise<NocoDBClient> {
+    return this.connections.active().getClient();
+  }
+
+  /**
+   * List the connection profiles (tokens are never shown)
+   */
+  private async listConnections(): Promise<ToolResult> {
+    const list = this.connections.list().map(({ profile }) => ({
+      name: profile.name,
+      url: profile.url,
+      baseId: profile.baseId,
+      apiVersion: profile.apiVersion || "auto",
+      readOnly: !!profile.readOnly,
+      default: profile.name === this.connections.defaultName
+    }));
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({ list }, null, 2)
+      }]
+    };
   }
 
   /**
    * List all NocoDB projects
    */
-  private async listProjects() {
+  private async listProjects(): Promise<ToolResult> {
     try {
-      const response = await this.axiosInstance.get('/api/v1/db/meta/projects');
+      const client = await this.getClient();
+      const projects = await client.listBases();
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(response.data, null, 2)
+          text: JSON.stringify({ list: projects }, null, 2)
         }]
       };
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new Error(`Failed to list projects: ${error.message}`);
     }
   }
@@ -544,11 +669,12 @@ export class NocoDBServer {
   /**
    * Create a new NocoDB project
    */
-  private async createProject(args: any) {
+  private async createProject(args: any): Promise<ToolResult> {
     const { title, description = "" } = args;
     
     try {
-      const response = await this.axiosInstance.post('/api/v1/db/meta/projects', {
+      const client = await this.getClient();
+      const project = await client.createBase({
         title,
         description
       });
@@ -556,10 +682,13 @@ export class NocoDBServer {
       return {
         content: [{
           type: "text",
-          text: `Project created successfully: ${JSON.stringify(response.data, null, 2)}`
+          text: `Project created successfully: ${JSON.stringify(project, null, 2)}`
         }]
       };
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new Error(`Failed to create project: ${error.message}`);
     }
   }
@@ -567,88 +696,86 @@ export class NocoDBServer {
   /**
    * List all tables in a project
    */
-  private async listTables(args: any) {
+  private async listTables(args: any): Promise<ToolResult> {
     const { projectId } = args;
     
     try {
-      const response = await this.axiosInstance.get(`/api/v1/db/meta/projects/${projectId}/tables`);
+      const project = await this.metadata.resolveBase(projectId);
+      const tables = await this.metadata.listTables(project.id);
       
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(response.data, null, 2)
+          text: JSON.stringify({ list: tables }, null, 2)
         }]
       };
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new Error(`Failed to list tables: ${error.message}`);
     }
   }
 
   /**
-   * Create a new table in a project
+   * Resolve a table to its metadata (with columns) and data ref.
+   * Projects and tables may be given by ID, title or table name (see MetadataResolver)
    */
-  private async createTable(args: any) {
-    const { projectId, tableName, columns } = args;
-    
-    try {
-      // Create table
-      const createTableResponse = await this.axiosInstance.post(`/api/v1/db/meta/projects/${projectId}/tables`, {
-        table_name: tableName
-      });
-      
-      const tableId = createTableResponse.data.id;
-      
-      // Add columns
-      for (const column of columns) {
-        await this.axiosInstance.post(`/api/v1/db/meta/tables/${tableId}/columns`, {
-          column_name: column.column_name,
-          title: column.column_name,
-          uidt: column.column_type,
-          ...(column.is_primary ? { pk: true } : {})
-        });
-      }
-      
-      return {
-        content: [{
-          type: "text",
-          text: `Table '${tableName}' created successfully with ${columns.length} columns.`
-        }]
-      };
-    } catch (error: any) {
-      throw new Error(`Failed to create table: ${error.message}`);
+  private resolveTable(projectId: string | undefined, tableName: string): Promise<{ table: TableMeta; ref: TableRef }> {
+    return this.metadata.resolveTable(projectId, tableName);
+  }
+
+  /**
+   * Read one page (cursor/offset + limit) or, with fetch_all, every page up to the caps
+   */
+  private async readRows(fetcher: PageFetcher, args: any) {
+    const { offset, limit } = pageWindow(args);
+    if (args.fetch_all) {
+      return fetchAll(fetcher, { offset, maxRows: args.limit });
     }
+    return fetchPage(fetcher, offset, limit);
+  }
+
+  /**
+   * Where rows read by readRows start, for the cursor formatRows gives when a budget leaves rows out
+   */
+  private rowWindow(args: any, columns?: any[]): RowWindow {
+    const { offset, limit } = pageWindow(args);
+    return { offset, limit: args.fetch_all ? PAGE_SIZE : limit, columns };
   }
 
   /**
    * Query records from a table
    */
-  private async queryTable(args: any) {
-    const { projectId, tableName, filters = {}, limit = 100, offset = 0 } = args;
+  private async queryTable(args: any): Promise<ToolResult> {
+    const { projectId, tableName } = args;
     
     try {
-      // Build query parameters
-      const queryParams: any = {
-        limit,
-        offset
-      };
-      
-      // Add filters if provided
-      if (Object.keys(filters).length > 0) {
-        queryParams.where = JSON.stringify(filters);
+      const client = await this.getClient();
+      const { table, ref } = await this.resolveTable(projectId, tableName);
+      const queryParams = compileQuery(args, table.columns || []);
+      const options = formatOptions(args);
+      if (args.expand) {
+        // Expanding reads the links of every row: the rows are capped and keep their primary key
+        args = { ...args, limit: Math.min(pageWindow(args).limit, MAX_EXPAND_ROWS) };
+        queryParams.fields = expandFields(table, queryParams.fields);
       }
       
-      const response = await this.axiosInstance.get(
-        `/api/v1/db/data/noco/${projectId}/${tableName}`,
-        { params: queryParams }
+      const result = await this.readRows(
+        (offset, limit) => client.listRecords(ref, { ...queryParams, offset, limit }),
+        args
       );
+      if (args.expand) {
+        result.list = await expandLinks(client, table, ref, result.list, args.expand);
+      }
       
       return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(response.data, null, 2)
-        }]
+        content: formatRows(result, this.rowWindow(args, table.columns), options).map((text) => ({ type: "text", text }))
       };
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new Error(`Failed to query table: ${error.message}`);
     }
   }
@@ -656,22 +783,39 @@ export class NocoDBServer {
   /**
    * Insert a new record into a table
    */
-  private async insertRecord(args: any) {
+  private async insertRecord(args: any): Promise<ToolResult> {
     const { projectId, tableName, data } = args;
     
     try {
-      const response = await this.axiosInstance.post(
-        `/api/v1/db/data/noco/${projectId}/${tableName}`,
-        data
-      );
+      const client = await this.getClient();
+      const { table, ref } = await this.resolveTable(projectId, tableName);
+      if (args.dryRun) {
+        return previewResult("insert_record", table, [previewInsert(table, data)]);
+      }
+      const { values, problems } = validateRecord(table, data, "insert");
+      if (problems.length > 0) {
+        throw new RecordValidationError(table.title, problems);
+      }
+      const record = await client.insertRecord(ref, values);
+
+      const recordId = record?.[primaryKeyOf(table)] ?? record?.id ?? record?.Id;
+      await this.audit.recordAfterWrite(ref, async () => {
+        if (recordId === undefined || recordId === null) {
+          throw new Error("NocoDB did not return the ID of the new record");
+        }
+        return [{ recordId: String(recordId), before: null, after: await client.getRecord(ref, String(recordId)) }];
+      });
       
       return {
         content: [{
           type: "text",
-          text: `Record inserted successfully: ${JSON.stringify(response.data, null, 2)}`
+          text: `Record inserted successfully: ${JSON.stringify(record, null, 2)}`
         }]
       };
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new Error(`Failed to insert record: ${error.message}`);
     }
   }
@@ -679,22 +823,34 @@ export class NocoDBServer {
   /**
    * Update an existing record in a table
    */
-  private async updateRecord(args: any) {
+  private async updateRecord(args: any): Promise<ToolResult> {
     const { projectId, tableName, recordId, data } = args;
     
     try {
-      const response = await this.axiosInstance.patch(
-        `/api/v1/db/data/noco/${projectId}/${tableName}/${recordId}`,
-        data
-      );
+      const client = await this.getClient();
+      const { table, ref } = await this.resolveTable(projectId, tableName);
+      if (args.dryRun) {
+        const current = await snapshotRows(client, table, ref, [recordId]);
+        return previewResult("update_record", table, [previewUpdate(table, recordId, current.get(String(recordId)), data)]);
+      }
+      const { values, problems } = validateRecord(table, data, "update");
+      if (problems.length > 0) {
+        throw new RecordValidationError(table.title, problems);
+      }
+      const before = await client.getRecord(ref, String(recordId));
+      const record = await client.updateRecord(ref, String(recordId), values);
+      await this.audit.recordAfterWrite(ref, async () => [{ recordId: String(recordId), before, after: await client.getRecord(ref, String(recordId)) }]);
       
       return {
         content: [{
           type: "text",
-          text: `Record updated successfully: ${JSON.stringify(response.data, null, 2)}`
+          text: `Record updated successfully: ${JSON.stringify(record, null, 2)}`
         }]
       };
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new Error(`Failed to update record: ${error.message}`);
     }
   }
@@ -702,13 +858,19 @@ export class NocoDBServer {
   /**
    * Delete a record from a table
    */
-  private async deleteRecord(args: any) {
+  private async deleteRecord(args: any): Promise<ToolResult> {
     const { projectId, tableName, recordId } = args;
     
     try {
-      await this.axiosInstance.delete(
-        `/api/v1/db/data/noco/${projectId}/${tableName}/${recordId}`
-      );
+      const client = await this.getClient();
+      const { table, ref } = await this.resolveTable(projectId, tableName);
+      if (args.dryRun) {
+        const current = await snapshotRows(client, table, ref, [recordId]);
+        return previewResult("delete_record", table, [previewDelete(table, recordId, current.get(String(recordId)))]);
+      }
+      const before = await client.getRecord(ref, String(recordId));
+      await client.deleteRecord(ref, String(recordId));
+      this.audit.record(ref, [{ recordId: String(recordId), before, after: null }]);
       
       return {
         content: [{
@@ -717,81 +879,64 @@ export class NocoDBServer {
         }]
       };
     } catch (error: any) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new Error(`Failed to delete record: ${error.message}`);
     }
   }
 
   /**
-   * Query a table directly by name without needing to know the project ID
+   * Query a table directly by its ID, title or name without needing to know the project ID
    */
-  private async queryTableByName(args: any) {
-    const { tableName, limit = 100 } = args;
+  private async queryTableByName(args: any): Promise<ToolResult> {
+    const { tableName } = args;
     
     try {
-      console.error(`Attempting to query table by name: ${tableName}`);
-      
-      // Using NocoDB v2 API with the base ID
-      const response = await this.axiosInstance.get(
-        `/api/${API_VERSION}/tables/${tableName}/records`,
-        { 
-          params: { 
-            limit,
-            baseId: NOCODB_BASE_ID
-          }
-        }
+      const client = await this.getClient();
+      // projectId is filled in by resolveTarget with the project the table was found in
+      const { table, ref } = await this.resolveTable(args.projectId, tableName);
+
+      // Invalid columns/operators are rejected before anything is queried
+      const queryParams = compileQuery(args, table.columns || []);
+      const options = formatOptions(args);
+
+      const result: { list: any[]; pageInfo?: PageInfo; totalRows?: number; nextCursor?: string } = await this.readRows(
+        (offset, limit) => client.listRecords(ref, { ...queryParams, offset, limit }),
+        args
       );
       
-      console.error(`Response received: ${JSON.stringify(response.data)}`);
+      const recordCount = result.list.length;
+      const totalCount = result.pageInfo?.totalRows ?? result.totalRows ?? recordCount;
       
-      // Extract count information from the response
-      const recordCount = response.data.list ? response.data.list.length : 0;
-      const totalCount = response.data.pageInfo ? response.data.pageInfo.totalRows : recordCount;
+      const [body, ...rest] = formatRows(
+        { list: result.list, nextCursor: result.nextCursor },
+        this.rowWindow(args, table.columns),
+        options
+      );
       
       return {
-        content: [{
-          type: "text",
-          text: `Table ${tableName} contains ${totalCount} total records. Retrieved ${recordCount} records.`
-        }]
+        content: [
+          { type: "text", text: `Table ${tableName} contains ${totalCount} total records. Retrieved ${recordCount} records.\n` + body },
+          ...rest.map((text) => ({ type: "text" as const, text }))
+        ]
       };
     } catch (error: any) {
-      console.error(`Error querying table by name: ${error.message}`);
-      console.error(`Error details: ${JSON.stringify(error.response?.data || {})}`);
-      
-      // Try an alternative approach - using a different endpoint format
-      try {
-        console.error("Trying alternative approach - using different endpoint format");
-        
-        const response = await this.axiosInstance.get(
-          `/api/${API_VERSION}/bases/${NOCODB_BASE_ID}/tables/${tableName}/records`,
-          { 
-            params: { limit }
-          }
-        );
-        
-        console.error(`Alternative approach response: ${JSON.stringify(response.data)}`);
-        
-        const recordCount = response.data.list ? response.data.list.length : 0;
-        const totalCount = response.data.pageInfo ? response.data.pageInfo.totalRows : recordCount;
-        
-        return {
-          content: [{
-            type: "text",
-            text: `Table ${tableName} contains ${totalCount} total records. Retrieved ${recordCount} records.`
-          }]
-        };
-      } catch (alternativeError: any) {
-        console.error(`Alternative approach error: ${alternativeError.message}`);
-        console.error(`Alternative error details: ${JSON.stringify(alternativeError.response?.data || {})}`);
-        
-        throw new Error(`Failed to query table by name: ${error.message}. Alternative approach also failed: ${alternativeError.message}`);
+      if (error instanceof McpError) {
+        throw error;
       }
+      throw new Error(`Failed to query table by name: ${error.message}`);
     }
   }
 
   /**
-   * Start the server
+   * Start the server on stdio (MCP over HTTP is mounted by createHttpApp)
    */
   async run() {
+    if (MCP_TRANSPORT === "http") {
+      console.error('NocoDB MCP stdio transport disabled (MCP_TRANSPORT=http)');
+      return;
+    }
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('NocoDB MCP server running on stdio');
@@ -802,4 +947,11 @@ export class NocoDBServer {
 const server = new NocoDBServer();
 server.run().catch(console.error);
 
+// HTTP surface (specs, /tools/* routes and, unless MCP_TRANSPORT=stdio, MCP over SSE)
+const app = createHttpApp(server);
+
+app.listen(PORT, () => {
+  console.error(`MCP rodando em http://localhost:${PORT}`);
+});
+
 
@@ -0,0 +1,133 @@
+/**
+ * LLM providers for natural-language questions (see ask.ts)
+ *
+ * A provider turns a conversation and the tool list into the next reply: either
+ * tool calls to run or the final answer. Messages and tool calls use the shapes
+ * below whatever the provider's own API looks like.
+ */
+import { LLM_PROVIDER, OPENAI_API_KEY, OPENAI_MODEL } from "./config.js";
+import { OpenAIProvider } from "./openAi.js";
+import type { ToolDescription } from "./registry.js";
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  // Parsed arguments; whatever the model sent when they are not a JSON object
+  arguments: unknown;
+}
+
+export type LlmMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; toolCalls?: LlmToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface LlmReply {
+  content: string | null;
+  toolCalls: LlmToolCall[];
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(messages: LlmMessage[], tools: ToolDescription[]): Promise<LlmReply>;
+}
+
+/**
+ * JSON object written right after `start` in `text`, if any (braces inside strings are not counted)
+ */
+function jsonObjectAt(text: string, start: number): { value: Record<string, unknown>; end: number } | undefined {
+  const open = text.slice(start).search(/\S/);
+  if (open < 0 || text[start + open] !== "{") {
+    return undefined;
+  }
+  let depth = 0;
+  let inString = false;
+  for (let i = start + open; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      try {
+        return { value: JSON.parse(text.slice(start + open, i + 1)), end: i + 1 };
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Deterministic offline provider, for tests and demos without an LLM.
+ *
+ * The question names the tools to call, in order, each optionally followed by its
+ * arguments as JSON: `list_tables {"projectId": "p1"} then query_table {...}`.
+ * One tool is called per step; once all have run, the answer lists their results.
+ * A question naming no tool calls list_projects
+ */
+export class StubProvider implements LlmProvider {
+  readonly name = "stub";
+
+  async complete(messages: LlmMessage[], tools: ToolDescription[]): Promise<LlmReply> {
+    const question = messages.find((m) => m.role === "user")?.content ?? "";
+    const planned = this.plan(question, tools);
+    const done = messages.filter((m) => m.role === "assistant" && m.toolCalls?.length).length;
+
+    if (done < planned.length) {
+      return { content: null, toolCalls: [{ id: `stub_call_${done + 1}`, ...planned[done] }] };
+    }
+
+    const names = new Map(messages.flatMap((m) => (m.role === "assistant" && m.toolCalls) || []).map((call) => [call.id, call.name]));
+    const results = messages
+      .filter((m): m is Extract<LlmMessage, { role: "tool" }> => m.role === "tool")
+      .map((m, index) => `${index + 1}. ${names.get(m.toolCallId)}: ${m.content.replace(/\s+/g, " ").slice(0, 200)}`);
+    return {
+      content: results.length > 0 ? `Ran ${results.length} tool call(s):\n${results.join("\n")}` : "No tool to call.",
+      toolCalls: []
+    };
+  }
+
+  /**
+   * Tool calls named in the question, in order of appearance
+   */
+  private plan(question: string, tools: ToolDescription[]) {
+    const names = tools.map((tool) => tool.name);
+    const calls: { name: string; arguments: unknown }[] = [];
+    const pattern = /[a-z][a-z0-9_]*/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(question))) {
+      const name = match[0];
+      if (!names.includes(name)) continue;
+      const args = jsonObjectAt(question, pattern.lastIndex);
+      if (args) pattern.lastIndex = args.end;
+      calls.push({ name, arguments: args?.value ?? {} });
+    }
+    if (calls.length === 0 && names.includes("list_projects")) {
+      calls.push({ name: "list_projects", arguments: {} });
+    }
+    return calls;
+  }
+}
+
+/**
+ * Provider selected by LLM_PROVIDER, or undefined when natural-language questions are off
+ */
+export function createProvider(): LlmProvider | undefined {
+  switch (LLM_PROVIDER) {
+    case undefined:
+      return undefined;
+    case "stub":
+      return new StubProvider();
+    case "openai":
+      if (!OPENAI_API_KEY) {
+        throw new Error("LLM_PROVIDER is openai but OPENAI_API_KEY is not set");
+      }
+      return new OpenAIProvider(OPENAI_API_KEY, OPENAI_MODEL);
+    default:
+      throw new Error(`Invalid LLM_PROVIDER: ${LLM_PROVIDER} (expected openai or stub)`);
+  }
+}
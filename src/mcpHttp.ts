@@ -0,0 +1,78 @@
+/**
+ * MCP over HTTP (SSE transport)
+ *
+ * Clients open `GET /mcp/sse` to start a session and receive the endpoint to
+ * POST their JSON-RPC messages to (`/mcp/messages?sessionId=...`).
+ * Every session is served by its own MCP server instance, scoped to the
+ * API key that opened it (authentication runs before this router).
+ */
+import { Router } from "express";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type { ApiKey } from "./auth.js";
+import type { NocoDBServer } from "./index.js";
+
+/**
+ * Build the router serving the SSE MCP transport
+ */
+export function createMcpRouter(nocodb: NocoDBServer) {
+  const router = Router();
+  const sessions = new Map<string, { transport: SSEServerTransport; apiKey?: ApiKey }>();
+
+  router.get("/sse", async (req, res) => {
+    const apiKey: ApiKey | undefined = res.locals.apiKey;
+    const transport = new SSEServerTransport(`${req.baseUrl}/messages`, res);
+    const server = nocodb.createMcpServer(apiKey, transport.sessionId);
+
+    sessions.set(transport.sessionId, { transport, apiKey });
+    console.error(`MCP HTTP session opened: ${transport.sessionId} (${sessions.size} active)`);
+
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+      console.error(`MCP HTTP session closed: ${transport.sessionId} (${sessions.size} active)`);
+    };
+
+    try {
+      // connect() starts the transport, which writes the SSE headers and the endpoint event
+      await server.connect(transport);
+    } catch (error: any) {
+      sessions.delete(transport.sessionId);
+      console.error("Erro ao iniciar sessão MCP HTTP:", error);
+      if (!res.headersSent) {
+        res.status(500).end();
+      }
+    }
+  });
+
+  // The body is read by the transport itself, so no JSON parser may run before this route
+  router.post("/messages", async (req, res) => {
+    const sessionId = String(req.query.sessionId || "");
+    const session = sessions.get(sessionId);
+
+    if (!session) {
+      res.status(404).json({
+        ok: false,
+        error: { code: ErrorCode.InvalidRequest, message: `Unknown MCP session: ${sessionId}` }
+      });
+      return;
+    }
+
+    // A session may only be driven with the key that opened it
+    if (session.apiKey && session.apiKey !== res.locals.apiKey) {
+      res.status(403).json({
+        ok: false,
+        error: { code: ErrorCode.InvalidRequest, message: "Session belongs to another API key" }
+      });
+      return;
+    }
+
+    try {
+      await session.transport.handlePostMessage(req, res);
+    } catch (error: any) {
+      // handlePostMessage already answered the request
+      console.error(`Erro na sessão MCP HTTP ${sessionId}:`, error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,199 @@
+/**
+ * Metadata resolver: finds projects (bases) and tables by ID, title or table name
+ *
+ * Names are matched exactly first, then case-insensitively. A miss is reported
+ * with the closest names ("did you mean"). Project lists, table lists, table
+ * metadata (with columns) and views are cached for METADATA_CACHE_TTL seconds;
+ * tools that change the schema drop the cache when they finish.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { METADATA_CACHE_TTL } from "./config.js";
+import { NocoDBClient, TableMeta, TableRef, tableRef } from "./nocodbClient.js";
+
+interface CacheEntry {
+  expires: number;
+  value: Promise<any>;
+}
+
+// Suggestions listed on a miss
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * A name with case, spaces and punctuation ignored, e.g. "Due date" and "due_date" are both "duedate"
+ */
+export const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Edit distance between two strings (insertions, deletions and substitutions)
+ */
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Names close to `key`, closest first: small edit distance, or one contains the other
+ * (both compared as normalizeName, so case, spaces and punctuation do not count)
+ */
+export function suggest(key: string, names: string[], max = MAX_SUGGESTIONS): string[] {
+  const wanted = normalizeName(key);
+  const threshold = Math.max(2, Math.floor(wanted.length / 3));
+  return [...new Set(names)]
+    .map((name) => ({ name, normalized: normalizeName(name) }))
+    .map(({ name, normalized }) => ({
+      name,
+      score: wanted.length > 2 && normalized.length > 2 && (normalized.includes(wanted) || wanted.includes(normalized)) ? 0 : distance(wanted, normalized)
+    }))
+    .filter(({ score }) => score < wanted.length && score <= threshold)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, max)
+    .map(({ name }) => name);
+}
+
+/**
+ * Pick the item named `key` (by any of its names), exact match first, then case-insensitive
+ */
+function pick<T>(items: T[], key: string, namesOf: (item: T) => (string | undefined)[], label: (item: T) => string): T | undefined {
+  const exact = items.find((item) => namesOf(item).includes(key));
+  if (exact) {
+    return exact;
+  }
+  const lower = key.toLowerCase();
+  const matches = items.filter((item) => namesOf(item).some((name) => name?.toLowerCase() === lower));
+  if (matches.length > 1) {
+    throw new McpError(ErrorCode.InvalidParams, `'${key}' is ambiguous, it matches: ${matches.map(label).join(", ")}`);
+  }
+  return matches[0];
+}
+
+function notFound(message: string, key: string, names: string[]): never {
+  const suggestions = suggest(key, names);
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    suggestions.length > 0 ? `${message}. Did you mean: ${suggestions.join(", ")}?` : message
+  );
+}
+
+const tableNames = (table: TableMeta) => [table.id, table.title, table.table_name];
+
+export class MetadataResolver {
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(private getClient: () => Promise<NocoDBClient>, private ttlMs = METADATA_CACHE_TTL * 1000) {}
+
+  /**
+   * Cached load; failed loads are not kept
+   */
+  private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.cache.get(key);
+    if (entry && entry.expires > Date.now()) {
+      return entry.value;
+    }
+    const value = load();
+    this.cache.set(key, { expires: Date.now() + this.ttlMs, value });
+    value.catch(() => this.cache.delete(key));
+    return value;
+  }
+
+  /**
+   * Drop all cached metadata (after schema changes)
+   */
+  invalidate() {
+    this.cache.clear();
+  }
+
+  listBases(): Promise<any[]> {
+    return this.cached("bases", async () => (await this.getClient()).listBases());
+  }
+
+  listTables(baseId: string): Promise<TableMeta[]> {
+    return this.cached(`tables:${baseId}`, async () => (await this.getClient()).listTables(baseId));
+  }
+
+  getTable(tableId: string): Promise<TableMeta> {
+    return this.cached(`table:${tableId}`, async () => (await this.getClient()).getTable(tableId));
+  }
+
+  listViews(tableId: string): Promise<any[]> {
+    return this.cached(`views:${tableId}`, async () => (await this.getClient()).listViews(tableId));
+  }
+
+  /**
+   * Find a view of a table by ID or title
+   */
+  async resolveView(table: TableMeta, view: string): Promise<any> {
+    const views = await this.listViews(table.id);
+    const found = pick(views, view, (v) => [v.id, v.title], (v) => `${v.title} (${v.id})`);
+    if (!found) {
+      notFound(`View not found in table ${table.title}: ${view}`, view, views.map((v) => v.title));
+    }
+    return found;
+  }
+
+  /**
+   * Find a project by ID or title
+   */
+  async resolveBase(project: string): Promise<any> {
+    const bases = await this.listBases();
+    const found = pick(bases, project, (base) => [base.id, base.title], (base) => `${base.title} (${base.id})`);
+    if (!found) {
+      notFound(`Project not found: ${project}`, project, bases.map((base) => base.title));
+    }
+    return found;
+  }
+
+  /**
+   * Find a table by ID, title or table name and load its metadata (with columns).
+   * Without a project every project is searched
+   */
+  async resolveTable(project: string | undefined, tableName: string): Promise<{ table: TableMeta; ref: TableRef }> {
+    const bases = project ? [await this.resolveBase(project)] : await this.listBases();
+
+    const candidates: { table: TableMeta; baseId: string; baseTitle: string }[] = [];
+    for (const base of bases) {
+      try {
+        for (const table of await this.listTables(base.id)) {
+          candidates.push({ table, baseId: base.id, baseTitle: base.title });
+        }
+      } catch (error: any) {
+        // Without a project, a project we cannot read is skipped
+        if (project) throw error;
+      }
+    }
+
+    const found = pick(
+      candidates,
+      tableName,
+      ({ table }) => tableNames(table),
+      ({ table, baseTitle }) => `${table.title} (${table.id}, project ${baseTitle})`
+    );
+
+    if (!found) {
+      if (!project) {
+        // The table may still be reachable by ID when the projects cannot be listed
+        try {
+          const table = await this.getTable(tableName);
+          return { table, ref: tableRef(table) };
+        } catch {
+          // reported below
+        }
+      }
+      const where = project ? ` in project ${bases[0].title}` : "";
+      notFound(`Table not found${where}: ${tableName}`, tableName, candidates.map(({ table }) => table.title));
+    }
+
+    const table = await this.getTable(found.table.id);
+    return { table, ref: { ...tableRef(table), baseId: found.baseId } };
+  }
+}
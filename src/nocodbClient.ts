@@ -0,0 +1,502 @@
+/**
+ * Versioned NocoDB client
+ *
+ * One interface over NocoDB's two REST APIs:
+ * - v1: /api/v1/db/meta/projects/... and /api/v1/db/data/noco/{project}/{table}
+ * - v2: /api/v2/meta/bases/..., /api/v2/meta/tables/... and /api/v2/tables/{tableId}/records
+ *
+ * The version comes from API_VERSION ("v1", "v2" or "auto" to probe the server).
+ * Tool and resource handlers only talk to NocoDB through this interface.
+ */
+import { AxiosInstance } from "axios";
+import { Page } from "./pagination.js";
+
+/**
+ * Table metadata (subset of NocoDB's table meta; columns only on getTable)
+ */
+export interface TableMeta {
+  id: string;
+  title: string;
+  table_name?: string;
+  base_id?: string;
+  project_id?: string;
+  columns?: any[];
+  [key: string]: unknown;
+}
+
+/**
+ * What the data endpoints need to address a table in either API version
+ */
+export interface TableRef {
+  baseId: string;
+  tableId: string;
+  title: string;
+}
+
+/**
+ * Query params accepted by list endpoints (where/sort/fields already compiled)
+ */
+export interface ListParams {
+  offset?: number;
+  limit?: number;
+  where?: string;
+  sort?: string;
+  fields?: string;
+  // Read through a view (its filters, sorts and hidden fields apply)
+  viewId?: string;
+}
+
+export type ApiVersion = "v1" | "v2";
+
+/**
+ * One aggregate computed by NocoDB: a column ID and NocoDB's aggregation type (sum, avg, count_unique...)
+ */
+export interface AggregationSpec {
+  field: string;
+  type: string;
+}
+
+/**
+ * has-many, many-to-many and belongs-to
+ */
+export type RelationType = "hm" | "mm" | "bt";
+
+/**
+ * What the link endpoints need to address a relation column
+ */
+export interface LinkRef {
+  columnId: string;
+  title: string;
+  type: RelationType;
+}
+
+export interface NocoDBClient {
+  readonly version: ApiVersion;
+
+  listBases(): Promise<any[]>;
+  getBase(baseId: string): Promise<any>;
+  createBase(body: { title: string; description?: string }): Promise<any>;
+
+  listTables(baseId: string): Promise<TableMeta[]>;
+  getTable(tableId: string): Promise<TableMeta>;
+  createTable(baseId: string, body: { table_name: string; title?: string; columns?: any[] }): Promise<TableMeta>;
+  updateTable(tableId: string, body: { table_name?: string; title?: string }): Promise<any>;
+  deleteTable(tableId: string): Promise<void>;
+  createColumn(tableId: string, body: any): Promise<any>;
+  updateColumn(columnId: string, body: any): Promise<any>;
+  deleteColumn(columnId: string): Promise<void>;
+  listViews(tableId: string): Promise<any[]>;
+  createLinkColumn(tableId: string, body: { title: string; relatedTableId: string; type: RelationType }): Promise<any>;
+
+  listRecords(table: TableRef, params?: ListParams): Promise<Page>;
+  getRecord(table: TableRef, recordId: string): Promise<any>;
+  insertRecord(table: TableRef, data: Record<string, unknown>): Promise<any>;
+  updateRecord(table: TableRef, recordId: string, data: Record<string, unknown>): Promise<any>;
+  deleteRecord(table: TableRef, recordId: string): Promise<void>;
+
+  // Bulk writes: one request per call. Update/delete rows carry the primary key
+  bulkInsertRecords(table: TableRef, rows: Record<string, unknown>[]): Promise<any[]>;
+  bulkUpdateRecords(table: TableRef, rows: Record<string, unknown>[]): Promise<any[]>;
+  bulkDeleteRecords(table: TableRef, keys: Record<string, unknown>[]): Promise<any[]>;
+
+  // Linked records of one record through a relation column (a belongs-to link has at most one)
+  listLinks(table: TableRef, link: LinkRef, recordId: string, params?: ListParams): Promise<Page>;
+  linkRecords(table: TableRef, link: LinkRef, recordId: string, linkedIds: string[]): Promise<void>;
+  unlinkRecords(table: TableRef, link: LinkRef, recordId: string, linkedIds: string[]): Promise<void>;
+
+  // Server-side analytics, only where the API has an endpoint for it (see aggregate.ts for the fallback).
+  // groupBy pages `{ <column>: value, count }` rows; aggregate answers `{ <column title>: value }`
+  groupBy?(table: TableRef, columnName: string, params?: ListParams): Promise<Page>;
+  aggregate?(table: TableRef, aggregations: AggregationSpec[], params?: ListParams): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Bulk endpoints answer with an array of IDs/rows, or a count on older releases
+ */
+function asArray(data: any): any[] {
+  return Array.isArray(data) ? data : [];
+}
+
+/**
+ * Link endpoints answer with a page for has-many/many-to-many and with the record itself for belongs-to
+ */
+function asPage(data: any): Page {
+  if (data && Array.isArray(data.list)) {
+    return data;
+  }
+  const list = data && typeof data === "object" && Object.keys(data).length > 0 ? [data] : [];
+  return { list, pageInfo: { totalRows: list.length, isLastPage: true } };
+}
+
+/**
+ * Build the ref used by the data endpoints from table metadata
+ */
+export function tableRef(table: TableMeta): TableRef {
+  return {
+    baseId: String(table.base_id ?? table.project_id ?? ""),
+    tableId: table.id,
+    title: table.title
+  };
+}
+
+/**
+ * Title of the primary key column ("Id" when the metadata has none flagged)
+ */
+export function primaryKeyOf(table: TableMeta): string {
+  return (table.columns || []).find((c: any) => c.pk)?.title || "Id";
+}
+
+/**
+ * v1 API (/api/v1/db/...): records are addressed by project and table title
+ */
+export class NocoDBClientV1 implements NocoDBClient {
+  readonly version = "v1";
+
+  constructor(protected http: AxiosInstance) {}
+
+  async listBases() {
+    const response = await this.http.get('/api/v1/db/meta/projects');
+    return response.data.list || [];
+  }
+
+  async getBase(baseId: string) {
+    const response = await this.http.get(`/api/v1/db/meta/projects/${baseId}`);
+    return response.data;
+  }
+
+  async createBase(body: { title: string; description?: string }) {
+    const response = await this.http.post('/api/v1/db/meta/projects', body);
+    return response.data;
+  }
+
+  async listTables(baseId: string) {
+    const response = await this.http.get(`/api/v1/db/meta/projects/${baseId}/tables`);
+    return response.data.list || [];
+  }
+
+  async getTable(tableId: string) {
+    const response = await this.http.get(`/api/v1/db/meta/tables/${tableId}`);
+    return response.data;
+  }
+
+  async createTable(baseId: string, body: { table_name: string; title?: string; columns?: any[] }) {
+    const response = await this.http.post(`/api/v1/db/meta/projects/${baseId}/tables`, body);
+    return response.data;
+  }
+
+  async updateTable(tableId: string, body: { table_name?: string; title?: string }) {
+    const response = await this.http.patch(`/api/v1/db/meta/tables/${tableId}`, body);
+    return response.data;
+  }
+
+  async deleteTable(tableId: string) {
+    await this.http.delete(`/api/v1/db/meta/tables/${tableId}`);
+  }
+
+  async createColumn(tableId: string, body: any) {
+    const response = await this.http.post(`/api/v1/db/meta/tables/${tableId}/columns`, body);
+    return response.data;
+  }
+
+  async updateColumn(columnId: string, body: any) {
+    const response = await this.http.patch(`/api/v1/db/meta/columns/${columnId}`, body);
+    return response.data;
+  }
+
+  async deleteColumn(columnId: string) {
+    await this.http.delete(`/api/v1/db/meta/columns/${columnId}`);
+  }
+
+  async listViews(tableId: string) {
+    const response = await this.http.get(`/api/v1/db/meta/tables/${tableId}/views`);
+    return response.data.list || [];
+  }
+
+  async createLinkColumn(tableId: string, body: { title: string; relatedTableId: string; type: RelationType }) {
+    return this.createColumn(tableId, {
+      uidt: "LinkToAnotherRecord",
+      title: body.title,
+      column_name: body.title,
+      parentId: tableId,
+      childId: body.relatedTableId,
+      type: body.type
+    });
+  }
+
+  protected dataPath(table: TableRef, recordId?: string) {
+    const base = `/api/v1/db/data/noco/${table.baseId}/${encodeURIComponent(table.title)}`;
+    return recordId === undefined ? base : `${base}/${encodeURIComponent(recordId)}`;
+  }
+
+  async listRecords(table: TableRef, { viewId, ...params }: ListParams = {}) {
+    // v1 reads a view through its own data path
+    const path = viewId ? `${this.dataPath(table)}/views/${encodeURIComponent(viewId)}` : this.dataPath(table);
+    const response = await this.http.get(path, { params });
+    return response.data;
+  }
+
+  async getRecord(table: TableRef, recordId: string) {
+    const response = await this.http.get(this.dataPath(table, recordId));
+    return response.data;
+  }
+
+  async insertRecord(table: TableRef, data: Record<string, unknown>) {
+    const response = await this.http.post(this.dataPath(table), data);
+    return response.data;
+  }
+
+  async updateRecord(table: TableRef, recordId: string, data: Record<string, unknown>) {
+    const response = await this.http.patch(this.dataPath(table, recordId), data);
+    return response.data;
+  }
+
+  async deleteRecord(table: TableRef, recordId: string) {
+    await this.http.delete(this.dataPath(table, recordId));
+  }
+
+  protected bulkPath(table: TableRef) {
+    return `/api/v1/db/data/bulk/noco/${table.baseId}/${encodeURIComponent(table.title)}`;
+  }
+
+  async bulkInsertRecords(table: TableRef, rows: Record<string, unknown>[]) {
+    const response = await this.http.post(this.bulkPath(table), rows);
+    return asArray(response.data);
+  }
+
+  async bulkUpdateRecords(table: TableRef, rows: Record<string, unknown>[]) {
+    const response = await this.http.patch(this.bulkPath(table), rows);
+    return asArray(response.data);
+  }
+
+  async bulkDeleteRecords(table: TableRef, keys: Record<string, unknown>[]) {
+    const response = await this.http.delete(this.bulkPath(table), { data: keys });
+    return asArray(response.data);
+  }
+
+  protected linkPath(table: TableRef, link: LinkRef, recordId: string) {
+    return `${this.dataPath(table, recordId)}/${link.type}/${encodeURIComponent(link.title)}`;
+  }
+
+  async listLinks(table: TableRef, link: LinkRef, recordId: string, params: ListParams = {}) {
+    if (link.type === "bt") {
+      // v1 has no nested endpoint for belongs-to: the parent comes with the record
+      const record = await this.getRecord(table, recordId);
+      return asPage(record?.[link.title]);
+    }
+    const response = await this.http.get(this.linkPath(table, link, recordId), { params });
+    return asPage(response.data);
+  }
+
+  // v1 links one record per request
+  async linkRecords(table: TableRef, link: LinkRef, recordId: string, linkedIds: string[]) {
+    for (const linkedId of linkedIds) {
+      await this.http.post(`${this.linkPath(table, link, recordId)}/${encodeURIComponent(linkedId)}`);
+    }
+  }
+
+  async unlinkRecords(table: TableRef, link: LinkRef, recordId: string, linkedIds: string[]) {
+    for (const linkedId of linkedIds) {
+      await this.http.delete(`${this.linkPath(table, link, recordId)}/${encodeURIComponent(linkedId)}`);
+    }
+  }
+
+  async groupBy(table: TableRef, columnName: string, params: ListParams = {}) {
+    const response = await this.http.get(`${this.dataPath(table)}/groupby`, { params: { ...params, column_name: columnName } });
+    return response.data;
+  }
+}
+
+/**
+ * v2 API (/api/v2/...): records are addressed by table ID, and writes carry the primary key in the body
+ */
+export class NocoDBClientV2 implements NocoDBClient {
+  readonly version = "v2";
+
+  // Primary key title per table, needed for v2 update/delete bodies
+  private primaryKeys = new Map<string, string>();
+
+  constructor(protected http: AxiosInstance) {}
+
+  async listBases() {
+    const response = await this.http.get('/api/v2/meta/bases');
+    return response.data.list || [];
+  }
+
+  async getBase(baseId: string) {
+    const response = await this.http.get(`/api/v2/meta/bases/${baseId}`);
+    return response.data;
+  }
+
+  async createBase(body: { title: string; description?: string }) {
+    const response = await this.http.post('/api/v2/meta/bases', body);
+    return response.data;
+  }
+
+  async listTables(baseId: string) {
+    const response = await this.http.get(`/api/v2/meta/bases/${baseId}/tables`);
+    return response.data.list || [];
+  }
+
+  async getTable(tableId: string) {
+    const response = await this.http.get(`/api/v2/meta/tables/${tableId}`);
+    return response.data;
+  }
+
+  async createTable(baseId: string, body: { table_name: string; title?: string; columns?: any[] }) {
+    const response = await this.http.post(`/api/v2/meta/bases/${baseId}/tables`, body);
+    return response.data;
+  }
+
+  async updateTable(tableId: string, body: { table_name?: string; title?: string }) {
+    const response = await this.http.patch(`/api/v2/meta/tables/${tableId}`, body);
+    return response.data;
+  }
+
+  async deleteTable(tableId: string) {
+    await this.http.delete(`/api/v2/meta/tables/${tableId}`);
+  }
+
+  async createColumn(tableId: string, body: any) {
+    const response = await this.http.post(`/api/v2/meta/tables/${tableId}/columns`, body);
+    return response.data;
+  }
+
+  async updateColumn(columnId: string, body: any) {
+    const response = await this.http.patch(`/api/v2/meta/columns/${columnId}`, body);
+    return response.data;
+  }
+
+  async deleteColumn(columnId: string) {
+    await this.http.delete(`/api/v2/meta/columns/${columnId}`);
+  }
+
+  async listViews(tableId: string) {
+    const response = await this.http.get(`/api/v2/meta/tables/${tableId}/views`);
+    return response.data.list || [];
+  }
+
+  async createLinkColumn(tableId: string, body: { title: string; relatedTableId: string; type: RelationType }) {
+    return this.createColumn(tableId, {
+      // v2 calls has-many/many-to-many links "Links"; belongs-to keeps the old type
+      uidt: body.type === "bt" ? "LinkToAnotherRecord" : "Links",
+      title: body.title,
+      column_name: body.title,
+      parentId: tableId,
+      childId: body.relatedTableId,
+      type: body.type
+    });
+  }
+
+  protected async primaryKey(tableId: string): Promise<string> {
+    const cached = this.primaryKeys.get(tableId);
+    if (cached) {
+      return cached;
+    }
+    const pk = primaryKeyOf(await this.getTable(tableId));
+    this.primaryKeys.set(tableId, pk);
+    return pk;
+  }
+
+  protected dataPath(table: TableRef) {
+    return `/api/v2/tables/${table.tableId}/records`;
+  }
+
+  async listRecords(table: TableRef, params: ListParams = {}) {
+    const response = await this.http.get(this.dataPath(table), { params });
+    return response.data;
+  }
+
+  async getRecord(table: TableRef, recordId: string) {
+    const response = await this.http.get(`${this.dataPath(table)}/${encodeURIComponent(recordId)}`);
+    return response.data;
+  }
+
+  async insertRecord(table: TableRef, data: Record<string, unknown>) {
+    const response = await this.http.post(this.dataPath(table), data);
+    return response.data;
+  }
+
+  async updateRecord(table: TableRef, recordId: string, data: Record<string, unknown>) {
+    const pk = await this.primaryKey(table.tableId);
+    const response = await this.http.patch(this.dataPath(table), { ...data, [pk]: recordId });
+    return response.data;
+  }
+
+  async deleteRecord(table: TableRef, recordId: string) {
+    const pk = await this.primaryKey(table.tableId);
+    await this.http.delete(this.dataPath(table), { data: { [pk]: recordId } });
+  }
+
+  async bulkInsertRecords(table: TableRef, rows: Record<string, unknown>[]) {
+    const response = await this.http.post(this.dataPath(table), rows);
+    return asArray(response.data);
+  }
+
+  async bulkUpdateRecords(table: TableRef, rows: Record<string, unknown>[]) {
+    const response = await this.http.patch(this.dataPath(table), rows);
+    return asArray(response.data);
+  }
+
+  async bulkDeleteRecords(table: TableRef, keys: Record<string, unknown>[]) {
+    const response = await this.http.delete(this.dataPath(table), { data: keys });
+    return asArray(response.data);
+  }
+
+  protected linkPath(table: TableRef, link: LinkRef, recordId: string) {
+    return `/api/v2/tables/${table.tableId}/links/${link.columnId}/records/${encodeURIComponent(recordId)}`;
+  }
+
+  async listLinks(table: TableRef, link: LinkRef, recordId: string, params: ListParams = {}) {
+    const response = await this.http.get(this.linkPath(table, link, recordId), { params });
+    return asPage(response.data);
+  }
+
+  async linkRecords(table: TableRef, link: LinkRef, recordId: string, linkedIds: string[]) {
+    await this.http.post(this.linkPath(table, link, recordId), linkedIds.map((id) => ({ Id: id })));
+  }
+
+  async unlinkRecords(table: TableRef, link: LinkRef, recordId: string, linkedIds: string[]) {
+    await this.http.delete(this.linkPath(table, link, recordId), { data: linkedIds.map((id) => ({ Id: id })) });
+  }
+
+  async aggregate(table: TableRef, aggregations: AggregationSpec[], params: ListParams = {}) {
+    const response = await this.http.get(`/api/v2/tables/${table.tableId}/aggregate`, {
+      params: { ...params, aggregation: JSON.stringify(aggregations) }
+    });
+    return response.data;
+  }
+}
+
+/**
+ * Probe the server: v2 meta endpoints exist on every NocoDB release that has them.
+ * Only a missing endpoint means v1; any other failure (network, auth) is thrown,
+ * since it says nothing about the version
+ */
+export async function detectApiVersion(http: AxiosInstance): Promise<ApiVersion> {
+  try {
+    await http.get('/api/v2/meta/bases', { params: { limit: 1 } });
+    return "v2";
+  } catch (error: any) {
+    const status = error.status ?? error.response?.status;
+    if (status === 404 || status === 405) {
+      return "v1";
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create the client for the configured API version ("auto" probes the server)
+ */
+export async function createNocoDBClient(http: AxiosInstance, version: string): Promise<NocoDBClient> {
+  const resolved = version === "auto" ? await detectApiVersion(http) : version;
+
+  switch (resolved) {
+    case "v1":
+      return new NocoDBClientV1(http);
+    case "v2":
+      return new NocoDBClientV2(http);
+    default:
+      throw new Error(`Unsupported NocoDB API version: ${version} (expected v1, v2 or auto)`);
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * HTTP layer to NocoDB: timeouts, retries and error mapping
+ *
+ * Calls are retried with exponential backoff and full jitter when NocoDB
+ * rate-limits them (429, honouring Retry-After) and, for idempotent methods
+ * only, on 5xx responses, timeouts and network errors. Whatever still fails
+ * is turned into a NocoDBError: an McpError whose data carries the HTTP status,
+ * NocoDB's message and, when NocoDB names one, the offending field.
+ */
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  HTTP_RETRIES,
+  HTTP_RETRY_BASE_DELAY_MS,
+  HTTP_RETRY_MAX_DELAY_MS,
+  HTTP_TIMEOUT_MS,
+  NOCODB_AUTH_TOKEN,
+  NOCODB_URL
+} from "./config.js";
+
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT"];
+
+/**
+ * Structured details of a failed NocoDB call (McpError data)
+ */
+export interface NocoDBErrorDetails {
+  status?: number;
+  msg: string;
+  field?: string;
+  method?: string;
+  path?: string;
+}
+
+export class NocoDBError extends McpError {
+  readonly status?: number;
+  readonly msg: string;
+  readonly field?: string;
+
+  constructor(code: number, details: NocoDBErrorDetails) {
+    const where = details.field ? ` (field: ${details.field})` : "";
+    super(code, `NocoDB ${details.status ?? "request"} error: ${details.msg}${where}`, details);
+    this.name = "NocoDBError";
+    this.status = details.status;
+    this.msg = details.msg;
+    this.field = details.field;
+  }
+}
+
+/**
+ * MCP error code for an HTTP status from NocoDB
+ */
+function codeForStatus(status: number | undefined): number {
+  if (status === undefined) {
+    return ErrorCode.InternalError;
+  }
+  if (status === 400 || status === 404 || status === 409 || status === 422) {
+    return ErrorCode.InvalidParams;
+  }
+  if (status === 401 || status === 403) {
+    return ErrorCode.InvalidRequest;
+  }
+  return ErrorCode.InternalError;
+}
+
+/**
+ * Field named by NocoDB in the error body or message, if any
+ */
+function offendingField(data: any, msg: string): string | undefined {
+  if (typeof data?.field === "string") {
+    return data.field;
+  }
+  // e.g. "Field 'Emial' not found", "Column \"Amount\" is required"
+  return msg.match(/(?:field|column)(?: name)?\s*['"`]([^'"`]+)['"`]/i)?.[1];
+}
+
+/**
+ * Turn an axios error into a NocoDBError (anything else is returned as is)
+ */
+export function toNocoDBError(error: unknown): unknown {
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+  const method = error.config?.method?.toUpperCase();
+  const path = error.config?.url;
+
+  if (!error.response) {
+    const timedOut = TIMEOUT_CODES.includes(error.code ?? "");
+    return new NocoDBError(timedOut ? ErrorCode.RequestTimeout : ErrorCode.InternalError, {
+      msg: timedOut ? `No answer within ${error.config?.timeout ?? HTTP_TIMEOUT_MS} ms` : `Cannot reach NocoDB (${error.code || error.message})`,
+      method,
+      path
+    });
+  }
+
+  const { status, data } = error.response as { status: number; data: any };
+  const msg = (typeof data === "string" && data) || data?.msg || data?.message || data?.error || error.message;
+  return new NocoDBError(codeForStatus(status), {
+    status,
+    msg: String(msg),
+    field: offendingField(data, String(msg)),
+    method,
+    path
+  });
+}
+
+/**
+ * Reason of a failed NocoDB call, preferring the message NocoDB sent back
+ */
+export function errorReason(error: any): string {
+  if (error instanceof NocoDBError) {
+    return error.field ? `${error.msg} (field: ${error.field})` : error.msg;
+  }
+  return error?.response?.data?.msg || error?.response?.data?.message || error?.message || String(error);
+}
+
+/**
+ * Milliseconds asked for by a Retry-After header (seconds or HTTP date)
+ */
+function retryAfterMs(value: unknown): number | undefined {
+  if (typeof value !== "string" || value === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry `attempt` (0-based) of a failed call, or undefined when it must not be retried
+ */
+export function retryDelay(error: AxiosError, attempt: number): number | undefined {
+  if (attempt >= HTTP_RETRIES) {
+    return undefined;
+  }
+  const method = (error.config?.method || "get").toLowerCase();
+  const status = error.response?.status;
+
+  if (status === 429) {
+    // The call was refused, not run, so any method may be retried
+    const asked = retryAfterMs(error.response?.headers?.["retry-after"]);
+    if (asked !== undefined) {
+      return asked <= HTTP_RETRY_MAX_DELAY_MS ? asked : undefined;
+    }
+  } else if (!IDEMPOTENT_METHODS.includes(method)) {
+    return undefined;
+  } else if (status !== undefined && !RETRYABLE_STATUSES.includes(status)) {
+    return undefined;
+  }
+
+  // Exponential backoff with full jitter
+  const ceiling = Math.min(HTTP_RETRY_MAX_DELAY_MS, HTTP_RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Axios instance for a NocoDB API with timeouts, retries and error mapping installed
+ */
+export function createNocoDBHttp(url = NOCODB_URL, token = NOCODB_AUTH_TOKEN): AxiosInstance {
+  const http = axios.create({
+    baseURL: url,
+    timeout: HTTP_TIMEOUT_MS,
+    headers: {
+      'xc-token': token,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    }
+  });
+
+  http.interceptors.response.use(undefined, async (error) => {
+    const config = error.config as (InternalAxiosRequestConfig & { retryAttempt?: number }) | undefined;
+    if (!axios.isAxiosError(error) || !config) {
+      throw toNocoDBError(error);
+    }
+
+    const attempt = config.retryAttempt ?? 0;
+    const delay = retryDelay(error, attempt);
+    if (delay === undefined) {
+      throw toNocoDBError(error);
+    }
+
+    console.error(`NocoDB ${config.method?.toUpperCase()} ${config.url} failed (${error.response?.status ?? error.code}), retry ${attempt + 1}/${HTTP_RETRIES} in ${delay} ms`);
+    await sleep(delay);
+    config.retryAttempt = attempt + 1;
+    return http.request(config);
+  });
+
+  return http;
+}
@@ -1,52 +1,86 @@
-//import OpenAI from 'openai';
-//import { NocoDBServer } from './index.js';
-//import dotenv from 'dotenv';
-//
-//dotenv.config();
-//
-//export class GPTNocoDBClient {
-//    private openai: OpenAI;
-//    private nocodb: NocoDBServer;
-//
-//    constructor() {
-//        this.openai = new OpenAI({
-//            apiKey: process.env.OPENAI_API_KEY
-//        });
-//
-//        this.nocodb = new NocoDBServer();
-//    }
-//
-//    async processNaturalQuery(question: string): Promise<any> {
-//        try {
-//            // 1. Converter pergunta em comando via GPT
-//            const completion = await this.openai.chat.completions.create({
-//                messages: [
-//                    {
-//                        role: "system",
-//                        content: `Você é um assistente que converte perguntas em linguagem natural para comandos NocoDB.
-//                                Comandos disponíveis: list_projects, list_tables, query_table, insert_record, update_record, delete_record.`
-//                    },
-//                    {
-//                        role: "user",
-//                        content: question
-//                    }
-//                ],
-//                model: "gpt-3.5-turbo"
-//            });
-//            const messageContent = completion.choices[0].message.content;
-//                if (!messageContent) {
-//                    throw new Error("Resposta vazia do OpenAI");
-//                }
-//
-//            const comando = JSON.parse(messageContent);
-//            console.log("Comando interpretado:", comando);
-//
-//            // 2. Executar comando no NocoDB
-//            return await this.nocodb.executeCommand(comando);
-//
-//        } catch (error) {
-//            console.error("Erro ao processar pergunta:", error);
-//            throw error;
-//        }
-//    }
-//
\ No newline at end of file
+/**
+ * OpenAI provider for natural-language questions: chat completions with function
+ * calling, the tools being the same registry descriptions MCP clients get
+ */
+import OpenAI from "openai";
+import { HTTP_RETRIES, HTTP_TIMEOUT_MS } from "./config.js";
+import type { LlmMessage, LlmProvider, LlmReply } from "./llm.js";
+import type { ToolDescription } from "./registry.js";
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name = "openai";
+  private openai: OpenAI;
+
+  constructor(apiKey: string, private model: string) {
+    this.openai = new OpenAI({
+      apiKey,
+      timeout: HTTP_TIMEOUT_MS,
+      maxRetries: HTTP_RETRIES
+    });
+  }
+
+  async complete(messages: LlmMessage[], tools: ToolDescription[]): Promise<LlmReply> {
+    const completion = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: messages.map(toOpenAIMessage),
+      ...(tools.length > 0 ? {
+        tools: tools.map((tool) => ({
+          type: "function" as const,
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.inputSchema
+          }
+        }))
+      } : {})
+    });
+
+    const message = completion.choices[0]?.message;
+    if (!message) {
+      throw new Error("Empty response from OpenAI");
+    }
+    return {
+      content: message.content,
+      toolCalls: (message.tool_calls || []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseArguments(call.function.arguments)
+      }))
+    };
+  }
+}
+
+/**
+ * Function arguments as sent by the model; kept as the raw string when they are not valid JSON
+ */
+function parseArguments(raw: string): unknown {
+  try {
+    return raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    return raw;
+  }
+}
+
+function toOpenAIMessage(message: LlmMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case "tool":
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content,
+        ...(message.toolCalls?.length ? {
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function" as const,
+            function: {
+              name: call.name,
+              arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments)
+            }
+          }))
+        } : {})
+      };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
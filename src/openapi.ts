@@ -0,0 +1,137 @@
+/**
+ * OpenAPI spec and GPT tool manifest, generated from the tool registry
+ * (only the tools the policy leaves enabled)
+ */
+import { ToolDescription } from "./registry.js";
+
+/**
+ * snake_case tool name -> camelCase operationId (list_projects -> listProjects)
+ */
+function operationId(toolName: string) {
+  return toolName.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+const errorResponse = {
+  description: "Error envelope",
+  content: {
+    "application/json": {
+      schema: { $ref: "#/components/schemas/ErrorEnvelope" }
+    }
+  }
+};
+
+/**
+ * Build the OpenAPI 3 document describing the POST /tools/<name> routes
+ */
+export function buildOpenApiSpec(tools: ToolDescription[], baseUrl: string, authEnabled: boolean) {
+  const paths: Record<string, unknown> = {};
+
+  for (const tool of tools) {
+    const hasParams = Object.keys(tool.inputSchema.properties || {}).length > 0;
+
+    paths[`/tools/${tool.name}`] = {
+      post: {
+        summary: tool.description,
+        operationId: operationId(tool.name),
+        ...(hasParams ? {
+          requestBody: {
+            required: (tool.inputSchema.required || []).length > 0,
+            content: {
+              "application/json": { schema: tool.inputSchema }
+            }
+          }
+        } : {}),
+        responses: {
+          "200": {
+            description: "Tool result",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/SuccessEnvelope" }
+              }
+            }
+          },
+          "400": errorResponse,
+          ...(authEnabled ? { "401": errorResponse, "403": errorResponse } : {}),
+          "404": errorResponse,
+          "500": errorResponse,
+          "502": errorResponse
+        }
+      }
+    };
+  }
+
+  return {
+    openapi: "3.0.1",
+    info: {
+      title: "NocoDB MCP",
+      version: "1.0"
+    },
+    servers: [{ url: baseUrl }],
+    ...(authEnabled ? { security: [{ bearerAuth: [] }] } : {}),
+    paths,
+    components: {
+      ...(authEnabled ? {
+        securitySchemes: {
+          bearerAuth: { type: "http", scheme: "bearer" }
+        }
+      } : {}),
+      schemas: {
+        SuccessEnvelope: {
+          type: "object",
+          properties: {
+            ok: { type: "boolean" },
+            tool: { type: "string" },
+            content: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  type: { type: "string" },
+                  text: { type: "string" }
+                }
+              }
+            }
+          }
+        },
+        ErrorEnvelope: {
+          type: "object",
+          properties: {
+            ok: { type: "boolean" },
+            tool: { type: "string" },
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "integer" },
+                message: { type: "string" }
+              }
+            }
+          }
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Build the GPT plugin manifest pointing at the generated spec
+ */
+export function buildToolManifest(baseUrl: string, authEnabled: boolean) {
+  return {
+    schema_version: "v1",
+    name_for_human: "NocoDB MCP",
+    name_for_model: "nocodb_mcp",
+    description_for_human: "Gerencie dados do NocoDB com comandos em linguagem natural.",
+    description_for_model: "Use esta ferramenta para consultar, listar, inserir, atualizar e deletar registros no NocoDB.",
+    auth: authEnabled
+      ? { type: "service_http", authorization_type: "bearer" }
+      : { type: "none" },
+    api: {
+      type: "openapi",
+      url: `${baseUrl}/openapi.yaml`,
+      has_user_authentication: false
+    },
+    logo_url: "https://raw.githubusercontent.com/github/explore/main/topics/database/database.png",
+    contact_email: "suporte@nextelectric.com.br",
+    legal_info_url: "https://nextelectric.com.br/termos"
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Pagination over NocoDB list endpoints
+ *
+ * Tool results and resource reads expose an opaque `nextCursor` instead of raw
+ * offsets. `fetchAll` follows NocoDB's pageInfo until the last page or until a
+ * row/byte cap is hit, and always says when it stopped early.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { FETCH_ALL_MAX_BYTES, FETCH_ALL_MAX_ROWS, PAGE_SIZE } from "./config.js";
+
+/**
+ * NocoDB pageInfo block returned by list endpoints
+ */
+export interface PageInfo {
+  totalRows?: number;
+  page?: number;
+  pageSize?: number;
+  isFirstPage?: boolean;
+  isLastPage?: boolean;
+}
+
+export interface Page<T = any> {
+  list: T[];
+  pageInfo?: PageInfo;
+}
+
+/**
+ * Fetches one page of rows starting at `offset`
+ */
+export type PageFetcher<T = any> = (offset: number, limit: number) => Promise<Page<T>>;
+
+interface CursorState {
+  offset: number;
+  limit: number;
+}
+
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (typeof state.offset !== "number" || typeof state.limit !== "number") {
+      throw new Error("bad cursor");
+    }
+    return state;
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+}
+
+/**
+ * Cursor to the page after the one just read, or undefined on the last page
+ */
+function nextCursorAfter(page: Page, offset: number, limit: number): string | undefined {
+  const read = page.list.length;
+  const isLast = page.pageInfo?.isLastPage ?? (read < limit);
+  if (isLast || read === 0) {
+    return undefined;
+  }
+  return encodeCursor({ offset: offset + read, limit });
+}
+
+/**
+ * Resolve the offset/limit to read from the tool arguments (`cursor` wins over `offset`)
+ */
+export function pageWindow(args: { cursor?: string; offset?: number; limit?: number }) {
+  if (args.cursor) {
+    const state = decodeCursor(args.cursor);
+    return { offset: state.offset, limit: args.limit ?? state.limit };
+  }
+  return { offset: args.offset ?? 0, limit: args.limit ?? PAGE_SIZE };
+}
+
+/**
+ * Read a single page and work out its continuation cursor
+ */
+export async function fetchPage<T>(fetcher: PageFetcher<T>, offset: number, limit: number) {
+  const page = await fetcher(offset, limit);
+  const list = page.list || [];
+  return {
+    list,
+    pageInfo: page.pageInfo,
+    nextCursor: nextCursorAfter({ ...page, list }, offset, limit)
+  };
+}
+
+export interface FetchAllOptions {
+  offset?: number;
+  maxRows?: number;
+  maxBytes?: number;
+  pageSize?: number;
+}
+
+/**
+ * Read every page (from `offset`) up to the row/byte caps.
+ * `truncated` tells whether rows were left behind; `nextCursor` continues from there
+ */
+export async function fetchAll<T>(fetcher: PageFetcher<T>, options: FetchAllOptions = {}) {
+  const maxRows = Math.max(1, Math.min(options.maxRows ?? FETCH_ALL_MAX_ROWS, FETCH_ALL_MAX_ROWS));
+  const maxBytes = Math.min(options.maxBytes ?? FETCH_ALL_MAX_BYTES, FETCH_ALL_MAX_BYTES);
+  const pageSize = options.pageSize ?? PAGE_SIZE;
+
+  const rows: T[] = [];
+  let offset = options.offset ?? 0;
+  let bytes = 0;
+  let totalRows: number | undefined;
+  let truncated = false;
+  let nextCursor: string | undefined;
+
+  while (true) {
+    const limit = Math.min(pageSize, maxRows - rows.length);
+    const page = await fetchPage(fetcher, offset, limit);
+    totalRows = page.pageInfo?.totalRows ?? totalRows;
+
+    for (const row of page.list) {
+      const size = Buffer.byteLength(JSON.stringify(row));
+      if (bytes + size > maxBytes) {
+        truncated = true;
+        break;
+      }
+      rows.push(row);
+      bytes += size;
+      offset++;
+    }
+
+    if (truncated || !page.nextCursor) {
+      break;
+    }
+    if (rows.length >= maxRows) {
+      truncated = true;
+      break;
+    }
+  }
+
+  if (truncated) {
+    nextCursor = encodeCursor({ offset, limit: pageSize });
+  }
+
+  return { list: rows, totalRows, truncated, nextCursor, bytes };
+}
@@ -0,0 +1,184 @@
+/**
+ * Declarative tool policy, loaded at startup from POLICY_FILE (JSON)
+ *
+ *   {
+ *     "readOnly": false,
+ *     "tools": { "allow": ["*"], "deny": ["create_project"] },
+ *     "rules": [
+ *       { "project": "p_xxx", "table": "Clientes", "deny": ["delete_record"] },
+ *       { "project": "p_yyy", "readOnly": true }
+ *     ],
+ *     "maxRows": 500,
+ *     "requireConfirmation": ["delete_record", "create_table"]
+ *   }
+ *
+ * Applies to every caller (stdio, SSE and the HTTP routes). Tools blocked
+ * globally are not listed at all; project/table rules are checked per call.
+ * With DRY_RUN_DEFAULT, write calls without `confirm: true` become dry runs.
+ */
+import * as fs from "fs";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { DRY_RUN_DEFAULT, POLICY_FILE } from "./config.js";
+import { ToolDefinition } from "./registry.js";
+
+/**
+ * Allow/deny lists of tool names ("*" matches every tool)
+ */
+export interface ToolRules {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * Rule for one project and/or table (omitted = any)
+ */
+export interface ScopedRule extends ToolRules {
+  project?: string;
+  table?: string;
+  readOnly?: boolean;
+}
+
+export interface Policy {
+  readOnly?: boolean;
+  tools?: ToolRules;
+  rules?: ScopedRule[];
+  maxRows?: number;
+  requireConfirmation?: string[];
+}
+
+/**
+ * Raised when a tool call is blocked by the policy
+ */
+export class PolicyViolationError extends McpError {
+  constructor(message: string) {
+    super(ErrorCode.InvalidRequest, `Blocked by policy: ${message}`);
+  }
+}
+
+/**
+ * Read the policy file (no file = everything allowed)
+ */
+export function loadPolicy(): Policy {
+  if (!POLICY_FILE) {
+    return {};
+  }
+  const policy: Policy = JSON.parse(fs.readFileSync(POLICY_FILE, "utf-8"));
+  console.error(`Policy loaded from ${POLICY_FILE}`);
+  return policy;
+}
+
+function matches(list: string[] | undefined, name: string) {
+  return !!list && (list.includes("*") || list.includes(name));
+}
+
+/**
+ * Check allow/deny lists. Returns the reason when the tool is blocked
+ */
+function checkToolRules(rules: ToolRules | undefined, toolName: string): string | undefined {
+  if (matches(rules?.deny, toolName)) {
+    return `${toolName} is denied`;
+  }
+  if (rules?.allow && !matches(rules.allow, toolName)) {
+    return `${toolName} is not in the allow list`;
+  }
+  return undefined;
+}
+
+export class PolicyEngine {
+  constructor(private policy: Policy, private dryRunByDefault = DRY_RUN_DEFAULT) {}
+
+  /**
+   * Whether a tool is usable at all (global switches only). Blocked tools are not listed
+   */
+  isToolEnabled(tool: ToolDefinition) {
+    if (this.policy.readOnly && tool.access === "write") {
+      return false;
+    }
+    return checkToolRules(this.policy.tools, tool.name) === undefined;
+  }
+
+  /**
+   * Whether calls to this tool must carry `confirm: true` to write (dry runs never need it)
+   */
+  requiresConfirmation(tool: ToolDefinition) {
+    return matches(this.policy.requireConfirmation, tool.name) || (this.dryRunByDefault && tool.access === "write");
+  }
+
+  /**
+   * Tool schema as advertised under this policy (adds the `confirm` flag where required)
+   */
+  describeSchema(tool: ToolDefinition): ToolDefinition["inputSchema"] {
+    if (!this.requiresConfirmation(tool)) {
+      return tool.inputSchema;
+    }
+    return {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        confirm: {
+          type: "boolean",
+          description: this.dryRunByDefault && tool.supportsDryRun
+            ? "Must be true to write: without it the call only runs as a dry run"
+            : "Must be true: this tool changes data and requires explicit confirmation"
+        }
+      }
+    };
+  }
+
+  /**
+   * Check a call and return the arguments to run it with (row limits capped).
+   * Throws PolicyViolationError when the call is not allowed
+   */
+  enforce(tool: ToolDefinition, args: any): any {
+    if (this.policy.readOnly && tool.access === "write") {
+      throw new PolicyViolationError(`server is read-only; ${tool.name} changes data`);
+    }
+
+    const globalReason = checkToolRules(this.policy.tools, tool.name);
+    if (globalReason) {
+      throw new PolicyViolationError(globalReason);
+    }
+
+    for (const rule of this.policy.rules || []) {
+      if (rule.project !== undefined && rule.project !== "*" && rule.project !== args?.projectId) {
+        continue;
+      }
+      if (rule.table !== undefined && rule.table !== "*" && rule.table !== args?.tableName) {
+        continue;
+      }
+
+      const where = [rule.project && `project ${rule.project}`, rule.table && `table ${rule.table}`]
+        .filter(Boolean).join(", ") || "all projects";
+
+      if (rule.readOnly && tool.access === "write") {
+        throw new PolicyViolationError(`${where} is read-only; ${tool.name} changes data`);
+      }
+      const reason = checkToolRules(rule, tool.name);
+      if (reason) {
+        throw new PolicyViolationError(`${reason} for ${where}`);
+      }
+    }
+
+    if (this.requiresConfirmation(tool) && args?.confirm !== true) {
+      if (this.dryRunByDefault && tool.supportsDryRun) {
+        args = { ...args, dryRun: true };
+      } else if (!(tool.supportsDryRun && args?.dryRun === true)) {
+        throw new PolicyViolationError(`${tool.name} requires confirmation; call it again with "confirm": true`);
+      }
+    }
+
+    const maxRows = this.policy.maxRows;
+    if (maxRows !== undefined && tool.inputSchema.properties?.limit) {
+      if (args?.limit === undefined) {
+        return { ...args, limit: maxRows };
+      }
+      const requested = Number(args.limit);
+      if (typeof args.limit === "boolean" || !Number.isInteger(requested) || requested < 1) {
+        throw new McpError(ErrorCode.InvalidParams, `limit must be a positive integer, got ${JSON.stringify(args.limit)}`);
+      }
+      return { ...args, limit: Math.min(requested, maxRows) };
+    }
+
+    return args;
+  }
+}
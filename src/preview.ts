@@ -0,0 +1,110 @@
+/**
+ * Dry runs of record writes: validation against the table schema and field-level diffs
+ *
+ * Write tools that accept `dryRun` read the rows they would touch, check the
+ * input against the columns and answer with what would change, field by field,
+ * without writing anything.
+ */
+import { TableMeta } from "./nocodbClient.js";
+import { JsonSchema, ToolResult } from "./registry.js";
+import { LINK_TYPES } from "./schemaTools.js";
+import { COMPUTED_TYPES, validateRecord } from "./validation.js";
+
+export const DRY_RUN_PROPERTY: Record<string, JsonSchema> = {
+  dryRun: {
+    type: "boolean",
+    description: "Only validate the input and return a field-level diff of what would change; nothing is written (optional)"
+  }
+};
+
+export type PreviewAction = "insert" | "update" | "delete" | "none";
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RowPreview {
+  index?: number;
+  recordId?: string;
+  action: PreviewAction;
+  changes: FieldChange[];
+  problems: string[];
+}
+
+/**
+ * The part of a row that can be written: data columns only (the primary key on request)
+ */
+export function writableFields(table: TableMeta, row: Record<string, unknown>, keepPk: boolean): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const column of table.columns || []) {
+    if (!(column.title in row)) continue;
+    if (column.pk ? !keepPk : column.system || COMPUTED_TYPES.includes(column.uidt) || LINK_TYPES.includes(column.uidt)) continue;
+    data[column.title] = row[column.title];
+  }
+  return data;
+}
+
+/**
+ * Check input data against the table columns (see validation.ts). Returns the coerced values keyed by column title and the problems found
+ */
+export function checkRow(table: TableMeta, data: unknown, action: "insert" | "update") {
+  const { values, problems } = validateRecord(table, data, action);
+  return { values, problems: problems.map((problem) => problem.message) };
+}
+
+const differs = (a: unknown, b: unknown) => JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+
+export function previewInsert(table: TableMeta, data: unknown, index?: number): RowPreview {
+  const { values, problems } = checkRow(table, data, "insert");
+  return {
+    ...(index !== undefined ? { index } : {}),
+    action: "insert",
+    changes: Object.entries(values).map(([field, to]) => ({ field, from: null, to })),
+    problems
+  };
+}
+
+export function previewUpdate(table: TableMeta, recordId: unknown, current: Record<string, unknown> | undefined, data: unknown, index?: number): RowPreview {
+  const { values, problems } = checkRow(table, data, "update");
+  if (!current) {
+    problems.push(`Record ${recordId} not found`);
+  }
+  return {
+    ...(index !== undefined ? { index } : {}),
+    recordId: String(recordId),
+    action: "update",
+    changes: current
+      ? Object.entries(values).filter(([field, to]) => differs(current[field], to)).map(([field, to]) => ({ field, from: current[field] ?? null, to }))
+      : [],
+    problems
+  };
+}
+
+export function previewDelete(table: TableMeta, recordId: unknown, current: Record<string, unknown> | undefined, index?: number): RowPreview {
+  return {
+    ...(index !== undefined ? { index } : {}),
+    recordId: String(recordId),
+    action: "delete",
+    changes: current
+      ? Object.entries(writableFields(table, current, true)).map(([field, from]) => ({ field, from, to: null }))
+      : [],
+    problems: current ? [] : [`Record ${recordId} not found`]
+  };
+}
+
+/**
+ * Render row previews as a tool result
+ */
+export function previewResult(action: string, table: TableMeta, rows: RowPreview[]): ToolResult {
+  const invalid = rows.filter((row) => row.problems.length > 0).length;
+  const changing = rows.filter((row) => row.problems.length === 0 && (row.action === "delete" || row.changes.length > 0)).length;
+  return {
+    content: [{
+      type: "text",
+      text: `Dry run of ${action} on ${table.title}: ${changing} of ${rows.length} record(s) would change, ${invalid} with problems. Nothing was written.\n` +
+        JSON.stringify({ dryRun: true, table: table.title, rows }, null, 2)
+    }]
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * MCP prompts: NocoDB-aware prompt templates
+ *
+ * Each prompt embeds the table schema (the `nocodb://table/.../schema` resource)
+ * and, where useful, sample rows as resources, so the model starts with the
+ * context it needs instead of having to ask for it. A prompt is checked as a
+ * call to the tool reading the same data (see promptAccess), and embeds no more
+ * rows than that call may return.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { ConnectionManager } from "./connections.js";
+import { FILTER_OPERATORS } from "./filters.js";
+import { primaryKeyOf, TableMeta } from "./nocodbClient.js";
+import { readResource, resourceUri } from "./resources.js";
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+type PromptMessage =
+  | { role: "user"; content: { type: "text"; text: string } }
+  | { role: "user"; content: { type: "resource"; resource: { uri: string; mimeType: string } & ({ text: string } | { blob: string }) } };
+
+const TABLE_ARGUMENTS: PromptArgument[] = [
+  { name: "projectId", description: "Project ID or title", required: true },
+  { name: "tableName", description: "Table name, title or ID", required: true },
+  { name: "connection", description: "Connection profile (optional, default connection when omitted)" }
+];
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "explain_table_schema",
+    description: "Explain a table's columns, types, constraints and relations in plain language",
+    arguments: TABLE_ARGUMENTS
+  },
+  {
+    name: "summarize_recent_records",
+    description: "Summarize the most recent records of a table",
+    arguments: [
+      ...TABLE_ARGUMENTS,
+      { name: "count", description: "Number of recent records to include (default 20)" },
+      { name: "focus", description: "What the summary should focus on (optional)" }
+    ]
+  },
+  {
+    name: "draft_where_filter",
+    description: "Turn a question about a table into a filter for query_table",
+    arguments: [
+      ...TABLE_ARGUMENTS,
+      { name: "question", description: "The question to answer, e.g. 'open orders above 500 from last month'", required: true }
+    ]
+  },
+  {
+    name: "plan_data_cleanup",
+    description: "Review sample rows of a table and plan a data cleanup (duplicates, blanks, inconsistent values)",
+    arguments: [
+      ...TABLE_ARGUMENTS,
+      { name: "goal", description: "What to clean up (optional, default: find the problems)" }
+    ]
+  }
+];
+
+// Rows embedded by prompts that only need a sample
+const SAMPLE_ROWS = 10;
+const CLEANUP_SAMPLE_ROWS = 50;
+const MAX_RECENT_ROWS = 200;
+
+function text(value: string): PromptMessage {
+  return { role: "user", content: { type: "text", text: value } };
+}
+
+/**
+ * Column to order "recent" records by: the creation time if the table has one, else the primary key
+ */
+function recencyColumn(table: TableMeta): string {
+  const created = (table.columns || []).find((c: any) =>
+    c.uidt === "CreatedTime" || ["createdat", "created_at"].includes(String(c.title).toLowerCase())
+  );
+  return created?.title || primaryKeyOf(table);
+}
+
+/**
+ * Rows a prompt embeds: what it asks for, within the policy's maxRows
+ */
+function rowsWithin(rows: number, maxRows?: number): number {
+  return maxRows === undefined ? rows : Math.min(rows, maxRows);
+}
+
+/**
+ * The table schema and (optionally) some rows, as embedded resources
+ */
+async function tableContext(connections: ConnectionManager, args: Record<string, string>, rows: number, sort?: "recent") {
+  const ctx = connections.get(args.connection);
+  const { table, ref } = await ctx.metadata.resolveTable(args.projectId, args.tableName);
+  const tableUri = resourceUri(ctx, "table", ref.baseId, table.id);
+  const schema = await readResource(connections, `${tableUri}/schema`);
+  const messages: PromptMessage[] = [{ role: "user", content: { type: "resource", resource: schema.contents[0] } }];
+
+  if (rows > 0) {
+    const client = await ctx.getClient();
+    const page = await client.listRecords(ref, {
+      limit: rows,
+      ...(sort === "recent" ? { sort: `-${recencyColumn(table)}` } : {})
+    });
+    messages.push({
+      role: "user",
+      content: {
+        type: "resource",
+        resource: {
+          uri: tableUri,
+          mimeType: "application/json",
+          text: JSON.stringify({ records: page.list || [], totalRows: page.pageInfo?.totalRows }, null, 2)
+        }
+      }
+    });
+  }
+  return { table, messages };
+}
+
+/**
+ * What getting a prompt amounts to: the tool returning the data it embeds (the schema
+ * only, or rows too), called on the prompt's table, so the policy and API key scopes
+ * can be applied to it
+ */
+export function promptAccess(name: string, args: Record<string, string> = {}): { tool: string; args: Record<string, string> } {
+  return {
+    tool: name === "explain_table_schema" ? "describe_table" : "query_table",
+    args: {
+      ...(args.connection ? { connection: args.connection } : {}),
+      ...(args.projectId ? { projectId: args.projectId } : {}),
+      ...(args.tableName ? { tableName: args.tableName } : {})
+    }
+  };
+}
+
+function requireArgs(name: string, args: Record<string, string>) {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = prompt.arguments.filter((a) => a.required && !args[a.name]).map((a) => a.name);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} needs: ${missing.join(", ")}`);
+  }
+}
+
+/**
+ * Build the messages of a prompt. `maxRows` caps the rows it embeds (the policy's maxRows, see NocoDBServer.authorizeRead)
+ */
+export async function getPrompt(connections: ConnectionManager, name: string, args: Record<string, string> = {}, maxRows?: number) {
+  requireArgs(name, args);
+
+  switch (name) {
+    case "explain_table_schema": {
+      const { table, messages } = await tableContext(connections, args, 0);
+      return {
+        description: `Explain the schema of ${table.title}`,
+        messages: [
+          ...messages,
+          text(
+            `Explain the NocoDB table "${table.title}" described above to someone who has not seen it. ` +
+            "Say what each column holds, its type and constraints (required, unique, options), " +
+            "how the table relates to other tables through its link columns, and point out anything unusual."
+          )
+        ]
+      };
+    }
+
+    case "summarize_recent_records": {
+      const count = rowsWithin(Math.min(Math.max(1, Number(args.count) || 20), MAX_RECENT_ROWS), maxRows);
+      const { table, messages } = await tableContext(connections, args, count, "recent");
+      return {
+        description: `Summarize the ${count} most recent records of ${table.title}`,
+        messages: [
+          ...messages,
+          text(
+            `Summarize the ${count} most recent records of "${table.title}" shown above (newest first). ` +
+            "Point out trends, outliers and anything that looks wrong." +
+            (args.focus ? ` Focus on: ${args.focus}.` : "")
+          )
+        ]
+      };
+    }
+
+    case "draft_where_filter": {
+      const { table, messages } = await tableContext(connections, args, rowsWithin(SAMPLE_ROWS, maxRows));
+      return {
+        description: `Draft a filter on ${table.title}`,
+        messages: [
+          ...messages,
+          text(
+            `Write the "filters" argument of query_table that selects the records of "${table.title}" answering: ${args.question}\n\n` +
+            `A filter is a tree: a condition is { "field", "op", "value" } with op one of ${FILTER_OPERATORS.join(", ")} ` +
+            "('in' takes an array, 'between' takes [min, max], 'isnull'/'notnull' take no value); " +
+            "combine conditions with { \"and\": [...] }, { \"or\": [...] } and { \"not\": {...} }. " +
+            "Only use columns from the schema above and values that fit their types and options (see the sample rows). " +
+            "Answer with the JSON filter, then one line per condition explaining it, and suggest a sort if it helps."
+          )
+        ]
+      };
+    }
+
+    case "plan_data_cleanup": {
+      const { table, messages } = await tableContext(connections, args, rowsWithin(CLEANUP_SAMPLE_ROWS, maxRows));
+      return {
+        description: `Plan a data cleanup of ${table.title}`,
+        messages: [
+          ...messages,
+          text(
+            `Review the schema and sample rows of "${table.title}" above and plan a data cleanup` +
+            (args.goal ? ` with this goal: ${args.goal}.` : ": look for duplicates, blank required values, inconsistent formats and values outside the column options.") +
+            " For each problem, give the query_table filter that finds the affected rows and the change to apply " +
+            "(update_record, bulk_update_records, upsert_records or delete_record). " +
+            "Order the steps so nothing is lost, and do not run any write before the plan is approved."
+          )
+        ]
+      };
+    }
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+}
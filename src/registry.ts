@@ -0,0 +1,131 @@
+/**
+ * Typed tool registry
+ *
+ * Single source of truth for the tools the server exposes. The MCP tool list,
+ * the tool dispatch, the OpenAPI spec and the GPT manifest are all built from it.
+ */
+
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { AuditLog } from "./audit.js";
+import type { NocoDBClient, TableMeta, TableRef } from "./nocodbClient.js";
+import { errorReason } from "./nocodbHttp.js";
+
+/**
+ * JSON Schema subset used to describe tool inputs
+ */
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * Result returned by a tool handler (MCP CallTool result shape)
+ */
+export interface ToolResult {
+  content: { type: "text"; text: string }[];
+  isError?: boolean;
+  // MCP error code of an error result: InvalidParams when the caller's input was rejected (InternalError when unset)
+  errorCode?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Whether a tool only reads data or changes it (schema or records)
+ */
+export type ToolAccess = "read" | "write";
+
+/**
+ * Public description of a tool (MCP ListTools shape)
+ */
+export interface ToolDescription {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: "object" };
+}
+
+/**
+ * A tool: its public description plus the handler that runs it
+ */
+export interface ToolDefinition extends ToolDescription {
+  access: ToolAccess;
+  // Changes projects, tables or columns: cached metadata is dropped after it runs
+  changesSchema?: boolean;
+  // Accepts `dryRun`: validates and previews the change without writing
+  supportsDryRun?: boolean;
+  handler: (args: any) => Promise<ToolResult>;
+}
+
+/**
+ * Services a tool handler defined outside NocoDBServer can use
+ */
+export interface ToolContext {
+  getClient(): Promise<NocoDBClient>;
+  resolveTable(projectId: string | undefined, tableName: string): Promise<{ table: TableMeta; ref: TableRef }>;
+  // Write tools record the rows they change here (before/after snapshots)
+  audit: AuditLog;
+}
+
+/**
+ * The projectId and tableName arguments of the tools working on a table
+ */
+export const TABLE_PROPERTIES: Record<string, JsonSchema> = {
+  projectId: {
+    type: "string",
+    description: "Project ID or title"
+  },
+  tableName: {
+    type: "string",
+    description: "Table name, title or ID"
+  }
+};
+
+/**
+ * A tool result holding one text
+ */
+export function textResult(value: string): ToolResult {
+  return {
+    content: [{
+      type: "text",
+      text: value
+    }]
+  };
+}
+
+/**
+ * Rethrow an error caught by a tool handler: MCP errors as they are, anything else as "Failed to <action>: <reason>"
+ */
+export function toolFailure(action: string, error: any): never {
+  if (error instanceof McpError) {
+    throw error;
+  }
+  throw new Error(`Failed to ${action}: ${errorReason(error)}`);
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  /**
+   * Add a tool. Names must be unique
+   */
+  register(tool: ToolDefinition) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+}
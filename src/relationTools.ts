@@ -0,0 +1,349 @@
+/**
+ * Linked-record tools: relation columns, link/unlink and nested reads
+ *
+ * A relation column (LinkToAnotherRecord, or Links on v2) is addressed by its
+ * title, name or ID. Its relation type (hm, mm or bt) comes from the column meta.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { ScopeTarget } from "./auth.js";
+import { mapConcurrent, requireArray } from "./bulkTools.js";
+import { BULK_CONCURRENCY } from "./config.js";
+import { columnRef, compileFields } from "./filters.js";
+import { FORMAT_SCHEMA_PROPERTIES, formatOptions, formatRows } from "./format.js";
+import type { MetadataResolver } from "./metadata.js";
+import { LinkRef, NocoDBClient, primaryKeyOf, TableMeta, TableRef, tableRef } from "./nocodbClient.js";
+import { fetchPage, pageWindow } from "./pagination.js";
+import { JsonSchema, TABLE_PROPERTIES, textResult, ToolContext, ToolDefinition, toolFailure } from "./registry.js";
+import { createColumn, findColumn, LINK_TYPES, RELATION_TYPES } from "./schemaTools.js";
+
+export const MAX_EXPAND_DEPTH = 3;
+
+// Linked records read per relation and record when expanding
+const EXPAND_LIMIT = 25;
+
+// Rows of one call whose links are expanded; each costs a request per relation and level
+export const MAX_EXPAND_ROWS = 100;
+
+const RECORD_PROPERTIES: Record<string, JsonSchema> = {
+  ...TABLE_PROPERTIES,
+  recordId: {
+    type: "string",
+    description: "ID of the record whose links are read or changed"
+  },
+  column: {
+    type: "string",
+    description: "Relation column (title, name or ID)"
+  }
+};
+
+/**
+ * Find a relation column of a table and build the ref the link endpoints need
+ */
+function linkColumn(table: TableMeta, column: string): { link: LinkRef; relatedTableId?: string } {
+  const found = findColumn(table, column);
+  if (!LINK_TYPES.includes(found.uidt)) {
+    throw new McpError(ErrorCode.InvalidParams, `Column '${found.title}' of table ${table.title} is not a relation column (uidt ${found.uidt})`);
+  }
+  return {
+    link: { columnId: found.id, title: found.title, type: found.colOptions?.type ?? "hm" },
+    relatedTableId: found.colOptions?.fk_related_model_id
+  };
+}
+
+function linkedIds(args: any): string[] {
+  const ids = requireArray(args.linkedRecordIds, "linkedRecordIds");
+  if (ids.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "linkedRecordIds must name at least one record");
+  }
+  return ids.map(String);
+}
+
+/**
+ * The fields of a query whose rows are expanded: links are read by primary key, so it is
+ * added to a projection that leaves it out
+ */
+export function expandFields(table: TableMeta, fields: string | undefined): string | undefined {
+  const pk = (table.columns || []).find((c: any) => c.pk);
+  if (fields === undefined || !pk || fields.split(",").includes(columnRef(pk))) {
+    return fields;
+  }
+  return `${columnRef(pk)},${fields}`;
+}
+
+/**
+ * Replace the relation columns of `rows` with their linked records, `depth` levels deep.
+ * Belongs-to links become a single record (or null), the others a list capped at EXPAND_LIMIT
+ */
+export async function expandLinks(
+  client: NocoDBClient,
+  table: TableMeta,
+  ref: TableRef,
+  rows: any[],
+  depth: number,
+  tables = new Map<string, Promise<TableMeta>>()
+): Promise<any[]> {
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_EXPAND_DEPTH) {
+    throw new McpError(ErrorCode.InvalidParams, `expand must be a depth between 1 and ${MAX_EXPAND_DEPTH}`);
+  }
+
+  const pk = primaryKeyOf(table);
+  const relations = (table.columns || []).filter((c: any) => LINK_TYPES.includes(c.uidt)).map((c: any) => linkColumn(table, c.id));
+  if (relations.length === 0) {
+    return rows;
+  }
+
+  // Related table metadata is read once per expansion
+  const relatedTable = (tableId: string) => {
+    if (!tables.has(tableId)) {
+      tables.set(tableId, client.getTable(tableId));
+    }
+    return tables.get(tableId)!;
+  };
+
+  await mapConcurrent(rows, BULK_CONCURRENCY, async (row) => {
+    const recordId = row?.[pk];
+    if (recordId === undefined || recordId === null) {
+      return;
+    }
+    for (const { link, relatedTableId } of relations) {
+      const page = await client.listLinks(ref, link, String(recordId), { limit: EXPAND_LIMIT });
+      let linked = page.list || [];
+      if (depth > 1 && relatedTableId && linked.length > 0) {
+        const related = await relatedTable(relatedTableId);
+        const relatedRef = tableRef(related);
+        relatedRef.baseId = relatedRef.baseId || ref.baseId;
+        linked = await expandLinks(client, related, relatedRef, linked, depth - 1, tables);
+      }
+      row[link.title] = link.type === "bt" ? linked[0] ?? null : linked;
+    }
+  });
+  return rows;
+}
+
+/**
+ * Tables a call on `table` reaches through relations besides `table` itself, for the API key
+ * scopes: the related table of a relation `column`, the table `relatedTable` names and every
+ * table `expand` reads. A related table whose metadata cannot be read is named by its ID,
+ * so a key limited to some tables is refused rather than let through
+ */
+export async function relatedTables(metadata: MetadataResolver, table: TableMeta, ref: TableRef, args: any): Promise<ScopeTarget[]> {
+  const linked: ScopeTarget[] = [];
+  const seen = new Set([table.id]);
+
+  const related = async (tableId: string): Promise<TableMeta | undefined> => {
+    if (seen.has(tableId)) {
+      return undefined;
+    }
+    seen.add(tableId);
+    try {
+      const meta = await metadata.getTable(tableId);
+      linked.push({ projectId: tableRef(meta).baseId || ref.baseId, tableName: meta.title });
+      return meta;
+    } catch {
+      linked.push({ projectId: ref.baseId, tableName: tableId });
+      return undefined;
+    }
+  };
+  const relationsOf = (meta: TableMeta) =>
+    (meta.columns || []).filter((c: any) => LINK_TYPES.includes(c.uidt) && c.colOptions?.fk_related_model_id);
+
+  if (typeof args?.column === "string") {
+    const lower = args.column.toLowerCase();
+    const column = relationsOf(table).find((c: any) =>
+      c.id === args.column || c.title?.toLowerCase() === lower || c.column_name?.toLowerCase() === lower
+    );
+    if (column) {
+      await related(column.colOptions.fk_related_model_id);
+    }
+  }
+
+  if (typeof args?.relatedTable === "string") {
+    try {
+      const { table: other, ref: otherRef } = await metadata.resolveTable(ref.baseId, args.relatedTable);
+      linked.push({ projectId: otherRef.baseId, tableName: other.title });
+    } catch {
+      linked.push({ projectId: ref.baseId, tableName: args.relatedTable });
+    }
+  }
+
+  // expand reads the related tables level by level, like expandLinks
+  let level = [table];
+  for (let depth = 0; depth < Math.min(Number(args?.expand) || 0, MAX_EXPAND_DEPTH); depth++) {
+    const next: TableMeta[] = [];
+    for (const meta of level) {
+      for (const column of relationsOf(meta)) {
+        const relatedMeta = await related(column.colOptions.fk_related_model_id);
+        if (relatedMeta) {
+          next.push(relatedMeta);
+        }
+      }
+    }
+    level = next;
+  }
+  return linked;
+}
+
+/**
+ * Relation tools, registered by NocoDBServer
+ */
+export function relationTools(ctx: ToolContext): ToolDefinition[] {
+  return [
+    {
+      name: "create_relation_column",
+      description: "Add a relation (LinkToAnotherRecord) column linking a table to another table of the same project: has many (hm), many to many (mm) or belongs to (bt)",
+      access: "write",
+      changesSchema: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectId: RECORD_PROPERTIES.projectId,
+          tableName: RECORD_PROPERTIES.tableName,
+          column: {
+            type: "string",
+            description: "Title of the new relation column"
+          },
+          relatedTable: {
+            type: "string",
+            description: "Table to link to (name, title or ID)"
+          },
+          relationType: {
+            type: "string",
+            enum: RELATION_TYPES,
+            description: "hm (has many), mm (many to many) or bt (belongs to). Default hm"
+          }
+        },
+        required: ["projectId", "tableName", "column", "relatedTable"]
+      },
+      handler: async (args) => {
+        try {
+          const { table } = await ctx.resolveTable(args.projectId, args.tableName);
+          await createColumn(ctx, args.projectId, table.id, {
+            column_name: args.column,
+            column_type: "LinkToAnotherRecord",
+            related_table: args.relatedTable,
+            relation_type: args.relationType
+          });
+          return textResult(`Relation column '${args.column}' (${args.relationType ?? "hm"}) added to table ${table.title}, linking to ${args.relatedTable}.`);
+        } catch (error: any) {
+          toolFailure("create relation column", error);
+        }
+      }
+    },
+    {
+      name: "list_linked_records",
+      description: "List the records linked to a record through a relation column",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...RECORD_PROPERTIES,
+          fields: {
+            type: "array",
+            description: "Columns of the linked records to return (optional, default all)",
+            items: { type: "string" }
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of records to return (optional)"
+          },
+          cursor: {
+            type: "string",
+            description: "nextCursor from a previous result, to read the following page (optional)"
+          },
+          offset: {
+            type: "number",
+            description: "Number of records to skip (optional)"
+          },
+          ...FORMAT_SCHEMA_PROPERTIES
+        },
+        required: ["projectId", "tableName", "recordId", "column"]
+      },
+      handler: async (args) => {
+        try {
+          const client = await ctx.getClient();
+          const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+          const { link, relatedTableId } = linkColumn(table, args.column);
+
+          const options = formatOptions(args);
+
+          // Projected fields are validated against the related table
+          let fields: string | undefined;
+          if (args.fields !== undefined && relatedTableId) {
+            fields = compileFields(args.fields, (await client.getTable(relatedTableId)).columns || []);
+          }
+
+          const { offset, limit } = pageWindow(args);
+          const result = await fetchPage(
+            (offset, limit) => client.listLinks(ref, link, String(args.recordId), { offset, limit, ...(fields ? { fields } : {}) }),
+            offset,
+            limit
+          );
+          return {
+            content: formatRows({ relation: link.type, ...result }, { offset, limit }, options)
+              .map((text) => ({ type: "text", text }))
+          };
+        } catch (error: any) {
+          toolFailure("list linked records", error);
+        }
+      }
+    },
+    {
+      name: "link_records",
+      description: "Link records of the related table to a record through a relation column",
+      access: "write",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...RECORD_PROPERTIES,
+          linkedRecordIds: {
+            type: "array",
+            description: "IDs of the related records to link",
+            items: { type: "string" }
+          }
+        },
+        required: ["projectId", "tableName", "recordId", "column", "linkedRecordIds"]
+      },
+      handler: async (args) => {
+        try {
+          const ids = linkedIds(args);
+          const client = await ctx.getClient();
+          const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+          const { link } = linkColumn(table, args.column);
+          await client.linkRecords(ref, link, String(args.recordId), ids);
+          return textResult(`Linked ${ids.length} record(s) to record ${args.recordId} through '${link.title}'.`);
+        } catch (error: any) {
+          toolFailure("link records", error);
+        }
+      }
+    },
+    {
+      name: "unlink_records",
+      description: "Remove links between a record and records of the related table (the records themselves are kept)",
+      access: "write",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...RECORD_PROPERTIES,
+          linkedRecordIds: {
+            type: "array",
+            description: "IDs of the related records to unlink",
+            items: { type: "string" }
+          }
+        },
+        required: ["projectId", "tableName", "recordId", "column", "linkedRecordIds"]
+      },
+      handler: async (args) => {
+        try {
+          const ids = linkedIds(args);
+          const client = await ctx.getClient();
+          const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+          const { link } = linkColumn(table, args.column);
+          await client.unlinkRecords(ref, link, String(args.recordId), ids);
+          return textResult(`Unlinked ${ids.length} record(s) from record ${args.recordId} through '${link.title}'.`);
+        } catch (error: any) {
+          toolFailure("unlink records", error);
+        }
+      }
+    }
+  ];
+}
@@ -0,0 +1,335 @@
+/**
+ * MCP resources: projects, tables, table schemas, records and views
+ *
+ *   nocodb://{connection}/project/{projectId}                       project with its tables
+ *   nocodb://{connection}/table/{projectId}/{tableId}[?cursor=]     one page of rows (links to the next page,
+ *                                                                    pages up to the policy's maxRows)
+ *   nocodb://{connection}/table/{projectId}/{tableId}/schema        table metadata and views, no rows
+ *   nocodb://{connection}/record/{projectId}/{tableId}/{recordId}   one record
+ *   nocodb://{connection}/view/{projectId}/{tableId}/{viewId}[?cursor=]  one page of rows through a view
+ *   nocodb://{connection}/export/{projectId}/{tableId}/{format}[?fields=&sort=&filters=&delimiter=&encoding=&escapeFormulas=]
+ *                                                                    every row as CSV, JSON, NDJSON or Markdown
+ *                                                                    (up to the policy's maxRows)
+ *
+ * `{connection}` is the connection profile, so resources of different NocoDB
+ * instances never share a URI; URIs without it read from the default connection.
+ * Listing only names projects and tables, in pages, from the metadata cache;
+ * the other resources are reachable through the templates. Reads are checked
+ * as calls to the tool returning the same data (see resourceAccess).
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { PAGE_SIZE } from "./config.js";
+import type { ConnectionManager } from "./connections.js";
+import { EXPORT_MIME_TYPES, exportInline, exportRequest } from "./export.js";
+import { compileQuery } from "./filters.js";
+import { MetadataResolver } from "./metadata.js";
+import { NocoDBClient } from "./nocodbClient.js";
+import { errorReason } from "./nocodbHttp.js";
+import { decodeCursor, encodeCursor, fetchPage, pageWindow } from "./pagination.js";
+import { describeColumn } from "./schemaTools.js";
+
+/**
+ * A connection as resources see it (see Connection)
+ */
+export interface ResourceContext {
+  name: string;
+  getClient(): Promise<NocoDBClient>;
+  metadata: MetadataResolver;
+}
+
+const KINDS = ["project", "table", "record", "view", "export"];
+
+// The tool returning the same data as each kind of resource, whose policy rules and API key scope apply to it
+const KIND_TOOLS: Record<string, string> = {
+  project: "list_tables",
+  table: "query_table",
+  schema: "describe_table",
+  record: "query_table",
+  view: "query_table",
+  export: "export_table"
+};
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "nocodb://{connection}/project/{projectId}",
+    name: "NocoDB project",
+    description: "A project (base) with its tables",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "nocodb://{connection}/table/{projectId}/{tableId}",
+    name: "NocoDB table rows",
+    description: "One page of a table's rows; follow nextUri for the next page",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "nocodb://{connection}/table/{projectId}/{tableId}/schema",
+    name: "NocoDB table schema",
+    description: "Columns (type, constraints, options, relations) and views of a table, without rows",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "nocodb://{connection}/record/{projectId}/{tableId}/{recordId}",
+    name: "NocoDB record",
+    description: "A single record of a table",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "nocodb://{connection}/view/{projectId}/{tableId}/{viewId}",
+    name: "NocoDB view rows",
+    description: "One page of rows as a view shows them (its filters, sorts and hidden fields apply)",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "nocodb://{connection}/export/{projectId}/{tableId}/{format}",
+    name: "NocoDB table export",
+    description:
+      "Every row of a table as csv, json, ndjson or markdown. Optional query: fields and sort (comma-separated, '-' for descending), " +
+      "filters (JSON filter tree), delimiter, encoding (CSV; encodings other than utf-8 are returned as a blob) " +
+      "and escapeFormulas=false to leave cells starting like a spreadsheet formula unquoted"
+  }
+];
+
+interface ResourceEntry {
+  uri: string;
+  mimeType: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * URI of a resource of a connection, e.g. resourceUri(ctx, "table", projectId, tableId)
+ */
+export function resourceUri(ctx: ResourceContext, kind: string, ...parts: string[]) {
+  return `nocodb://${[ctx.name, kind, ...parts].map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * One page of the resource list (for each connection, its projects, each followed by its tables).
+ * Projects and tables `visible` rejects are left out
+ */
+export async function listResources(
+  connections: ConnectionManager,
+  cursor?: string,
+  visible: (projectId: string, tableTitle?: string) => boolean = () => true
+): Promise<{ resources: ResourceEntry[]; nextCursor?: string }> {
+  const { offset, limit } = cursor ? decodeCursor(cursor) : { offset: 0, limit: PAGE_SIZE };
+  const resources: ResourceEntry[] = [];
+  let position = 0;
+
+  // Entries are only built up to the end of the page (plus one, to know if there is more)
+  const add = (entry: () => ResourceEntry) => {
+    if (position >= offset && resources.length <= limit) {
+      resources.push(entry());
+    }
+    position++;
+  };
+
+  // Names are qualified with the connection only when there are several
+  const several = connections.list().length > 1;
+
+  try {
+    for (const ctx of connections.list()) {
+      if (resources.length > limit) break;
+      const label = several ? ` (${ctx.name})` : "";
+
+      for (const project of await ctx.metadata.listBases()) {
+        if (resources.length > limit) break;
+        if (!visible(project.id)) continue;
+        add(() => ({
+          uri: resourceUri(ctx, "project", project.id),
+          mimeType: "application/json",
+          name: `${project.title}${label}`,
+          description: `NocoDB project: ${project.title}${label}`
+        }));
+
+        for (const table of await ctx.metadata.listTables(project.id)) {
+          if (!visible(project.id, table.title)) continue;
+          add(() => ({
+            uri: resourceUri(ctx, "table", project.id, table.id),
+            mimeType: "application/json",
+            name: `${table.title}${label}`,
+            description: `Table ${table.title} in project ${project.title}${label}`
+          }));
+        }
+      }
+    }
+  } catch (error: any) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InternalError, `Erro ao listar recursos: ${errorReason(error)}`);
+  }
+
+  const hasMore = resources.length > limit;
+  return {
+    resources: resources.slice(0, limit),
+    nextCursor: hasMore ? encodeCursor({ offset: offset + limit, limit }) : undefined
+  };
+}
+
+function json(uri: string, value: unknown) {
+  return {
+    contents: [{
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(value, null, 2)
+    }]
+  };
+}
+
+/**
+ * Split a resource URI into its connection, kind, path segments and query (with the cursor)
+ */
+function parseUri(connections: ConnectionManager, uri: string) {
+  const [path, query = ""] = uri.slice("nocodb://".length).split("?");
+  const segments = path.split("/").map(decodeURIComponent);
+  // A URI without a connection (nocodb://table/...) reads from the default one
+  const ctx = KINDS.includes(segments[0]) && !connections.has(segments[0])
+    ? connections.get()
+    : connections.get(segments.shift());
+  const params = new URLSearchParams(query);
+  return {
+    ctx,
+    kind: segments.shift(),
+    parts: segments,
+    query: params,
+    cursor: params.get("cursor") || undefined
+  };
+}
+
+/**
+ * What reading a resource amounts to: the tool returning the same data, called on the
+ * resource's connection, project and table, so the policy and API key scopes can be
+ * applied to it. Undefined for URIs readResource rejects
+ */
+export function resourceAccess(connections: ConnectionManager, uri: string): { tool: string; args: Record<string, string> } | undefined {
+  if (!uri.startsWith("nocodb://")) {
+    return undefined;
+  }
+  const { ctx, kind, parts } = parseUri(connections, uri);
+  if (!kind || !KINDS.includes(kind) || !parts[0]) {
+    return undefined;
+  }
+  return {
+    tool: kind === "table" && parts[2] === "schema" ? KIND_TOOLS.schema : KIND_TOOLS[kind],
+    args: { connection: ctx.name, projectId: parts[0], ...(kind !== "project" && parts[1] ? { tableName: parts[1] } : {}) }
+  };
+}
+
+async function readProject(ctx: ResourceContext, uri: string, projectId: string) {
+  const client = await ctx.getClient();
+  const project = await ctx.metadata.resolveBase(projectId);
+  const details = await client.getBase(project.id);
+  const tables = await ctx.metadata.listTables(project.id);
+  return json(uri, { ...details, tables });
+}
+
+async function readRows(ctx: ResourceContext, uri: string, projectId: string, tableId: string, cursor?: string, viewId?: string, maxRows?: number) {
+  const client = await ctx.getClient();
+  const { table, ref } = await ctx.metadata.resolveTable(projectId, tableId);
+  const view = viewId ? await ctx.metadata.resolveView(table, viewId) : undefined;
+  const window = pageWindow({ cursor });
+  const { offset } = window;
+  const limit = maxRows === undefined ? window.limit : Math.min(window.limit, maxRows);
+
+  const page = await fetchPage(
+    (pageOffset, pageLimit) => client.listRecords(ref, { offset: pageOffset, limit: pageLimit, ...(view ? { viewId: view.id } : {}) }),
+    offset,
+    limit
+  );
+
+  const base = uri.split("?")[0];
+  return json(uri, {
+    metadata: view ? { table: { id: table.id, title: table.title }, view } : table,
+    records: page.list,
+    pageInfo: page.pageInfo,
+    nextCursor: page.nextCursor,
+    nextUri: page.nextCursor ? `${base}?cursor=${page.nextCursor}` : undefined
+  });
+}
+
+async function readSchema(ctx: ResourceContext, uri: string, projectId: string, tableId: string) {
+  const { table, ref } = await ctx.metadata.resolveTable(projectId, tableId);
+  const views = await ctx.metadata.listViews(table.id);
+  return json(uri, {
+    id: table.id,
+    title: table.title,
+    table_name: table.table_name,
+    projectId: ref.baseId,
+    columns: (table.columns || []).map(describeColumn),
+    views: views.map((view) => ({ id: view.id, title: view.title, type: view.type }))
+  });
+}
+
+async function readRecord(ctx: ResourceContext, uri: string, projectId: string, tableId: string, recordId: string) {
+  const client = await ctx.getClient();
+  const { ref } = await ctx.metadata.resolveTable(projectId, tableId);
+  return json(uri, await client.getRecord(ref, recordId));
+}
+
+async function readExport(ctx: ResourceContext, uri: string, projectId: string, tableId: string, format: string, query: URLSearchParams, limit?: number) {
+  const client = await ctx.getClient();
+  const { table, ref } = await ctx.metadata.resolveTable(projectId, tableId);
+
+  let filters: unknown;
+  try {
+    filters = query.has("filters") ? JSON.parse(query.get("filters")!) : undefined;
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "The filters query parameter must be a JSON filter tree");
+  }
+  const list = (name: string) => query.get(name)?.split(",").filter(Boolean);
+  const request = exportRequest(
+    {
+      format,
+      delimiter: query.get("delimiter") ?? undefined,
+      encoding: query.get("encoding") ?? undefined,
+      escapeFormulas: query.get("escapeFormulas") !== "false",
+      limit
+    },
+    compileQuery({ filters, sort: list("sort"), fields: list("fields") }, table.columns || [])
+  );
+
+  const exported = await exportInline(client, table, ref, request);
+  const mimeType = EXPORT_MIME_TYPES[request.format];
+  return {
+    contents: [request.encoding === "utf-8"
+      ? { uri, mimeType, text: exported.content.toString("utf-8") }
+      : { uri, mimeType, blob: exported.content.toString("base64") }]
+  };
+}
+
+/**
+ * Read a resource by URI. `limit` caps the rows of a page and of an export (the policy's maxRows, see NocoDBServer.authorizeRead)
+ */
+export async function readResource(connections: ConnectionManager, uri: string, limit?: number) {
+  try {
+    if (uri.startsWith("nocodb://")) {
+      const { ctx, kind, parts, query, cursor } = parseUri(connections, uri);
+      if (kind === "project" && parts.length === 1 && parts[0]) {
+        return await readProject(ctx, uri, parts[0]);
+      }
+      if (kind === "table" && parts.length === 3 && parts[2] === "schema") {
+        return await readSchema(ctx, uri, parts[0], parts[1]);
+      }
+      if (kind === "table" && parts.length === 2) {
+        return await readRows(ctx, uri, parts[0], parts[1], cursor, undefined, limit);
+      }
+      if (kind === "record" && parts.length === 3) {
+        return await readRecord(ctx, uri, parts[0], parts[1], parts[2]);
+      }
+      if (kind === "view" && parts.length === 3) {
+        return await readRows(ctx, uri, parts[0], parts[1], cursor, parts[2], limit);
+      }
+      if (kind === "export" && parts.length === 3) {
+        return await readExport(ctx, uri, parts[0], parts[1], parts[2], query, limit);
+      }
+    }
+  } catch (error: any) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    throw new McpError(ErrorCode.InternalError, `Erro ao ler o recurso ${uri}: ${errorReason(error)}`);
+  }
+  throw new McpError(ErrorCode.InvalidRequest, `Formato de URI inválido: ${uri}`);
+}
@@ -0,0 +1,522 @@
+/**
+ * Schema management tools: create, describe, alter and drop tables and columns
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { JsonSchema, TABLE_PROPERTIES, textResult, ToolContext, ToolDefinition, toolFailure, ToolResult } from "./registry.js";
+import { RelationType, TableMeta } from "./nocodbClient.js";
+import { errorReason } from "./nocodbHttp.js";
+import { DRY_RUN_PROPERTY } from "./preview.js";
+
+/**
+ * Column definition accepted by create_table / add_column (and, partially, update_column)
+ */
+export interface ColumnDefinition {
+  column_name?: string;
+  title?: string;
+  column_type?: string;
+  is_primary?: boolean;
+  required?: boolean;
+  unique?: boolean;
+  default?: unknown;
+  options?: (string | { title: string; color?: string })[];
+  precision?: number;
+  formula?: string;
+  related_table?: string;
+  relation_type?: RelationType;
+  meta?: Record<string, unknown>;
+}
+
+const SELECT_TYPES = ["SingleSelect", "MultiSelect"];
+
+// Column types (uidt) a dry run of create_table accepts
+export const COLUMN_TYPES = [
+  "SingleLineText", "LongText", "Number", "Decimal", "Currency", "Percent", "Duration", "Rating", "Checkbox",
+  "Date", "DateTime", "Time", "Year", "Email", "PhoneNumber", "URL", "SingleSelect", "MultiSelect", "Attachment",
+  "JSON", "GeoData", "Geometry", "User", "SpecificDBType", "Formula", "Rollup", "Lookup", "Barcode", "QrCode",
+  "Button", "Count", "AutoNumber", "CreatedTime", "LastModifiedTime", "CreatedBy", "LastModifiedBy",
+  "LinkToAnotherRecord", "Links", "ID"
+];
+export const LINK_TYPES = ["LinkToAnotherRecord", "Links"];
+export const RELATION_TYPES: RelationType[] = ["hm", "mm", "bt"];
+
+export const COLUMN_DEFINITION_PROPERTIES: Record<string, JsonSchema> = {
+  column_name: {
+    type: "string",
+    description: "Column name"
+  },
+  title: {
+    type: "string",
+    description: "Display title (optional, defaults to column_name)"
+  },
+  column_type: {
+    type: "string",
+    description: "Column type / uidt (e.g., 'SingleLineText', 'Number', 'Decimal', 'Date', 'SingleSelect', 'Formula', etc.)"
+  },
+  is_primary: {
+    type: "boolean",
+    description: "Whether this column is the primary key"
+  },
+  required: {
+    type: "boolean",
+    description: "Whether a value is required (optional)"
+  },
+  unique: {
+    type: "boolean",
+    description: "Whether values must be unique (optional)"
+  },
+  default: {
+    description: "Default value (optional)"
+  },
+  options: {
+    type: "array",
+    description: "Choices of a SingleSelect/MultiSelect column (optional)",
+    items: {}
+  },
+  precision: {
+    type: "number",
+    description: "Number of decimal places of a Decimal column (optional)"
+  },
+  formula: {
+    type: "string",
+    description: "Expression of a Formula column, e.g. '{Price} * {Quantity}' (optional)"
+  },
+  related_table: {
+    type: "string",
+    description: "Table a LinkToAnotherRecord/Links column points to, by name, title or ID (required for those types)"
+  },
+  relation_type: {
+    type: "string",
+    enum: RELATION_TYPES,
+    description: "Relation of a LinkToAnotherRecord/Links column: hm (has many), mm (many to many) or bt (belongs to). Default hm"
+  },
+  meta: {
+    type: "object",
+    description: "Extra type-specific settings passed to NocoDB as column meta (optional)"
+  }
+};
+
+/**
+ * Translate a column definition into NocoDB's column body.
+ * Only the fields present in `def` are set, so this also builds partial updates
+ */
+export function columnBody(def: ColumnDefinition) {
+  const body: Record<string, any> = {};
+  const name = def.column_name ?? def.title;
+
+  if (name !== undefined) {
+    body.column_name = def.column_name ?? name;
+    body.title = def.title ?? name;
+  }
+  if (def.column_type !== undefined) body.uidt = def.column_type;
+  if (def.is_primary) body.pk = true;
+  if (def.required !== undefined) body.rqd = def.required;
+  if (def.unique !== undefined) body.unique = def.unique;
+  if (def.default !== undefined) body.cdf = def.default;
+
+  if (def.options !== undefined) {
+    const options = def.options.map((option) => typeof option === "string" ? { title: option } : option);
+    body.colOptions = { options };
+    // Older NocoDB releases read the choices from dtxp
+    body.dtxp = options.map((option) => `'${option.title.replace(/'/g, "\\'")}'`).join(",");
+  }
+  if (def.formula !== undefined) {
+    body.formula_raw = def.formula;
+    body.formula = def.formula;
+  }
+  if (def.precision !== undefined || def.meta !== undefined) {
+    body.meta = {
+      ...(def.meta || {}),
+      ...(def.precision !== undefined ? { precision: def.precision } : {})
+    };
+  }
+  return body;
+}
+
+/**
+ * Compact, model-friendly description of a column
+ */
+export function describeColumn(column: any) {
+  const options = column.colOptions?.options?.map((option: any) => option.title);
+  const relation = column.uidt === "LinkToAnotherRecord" || column.uidt === "Links"
+    ? {
+        type: column.colOptions?.type,
+        relatedTableId: column.colOptions?.fk_related_model_id
+      }
+    : undefined;
+
+  return {
+    id: column.id,
+    title: column.title,
+    column_name: column.column_name,
+    uidt: column.uidt,
+    primaryKey: !!column.pk,
+    primaryValue: !!column.pv,
+    required: !!column.rqd,
+    unique: !!column.unique,
+    system: !!column.system,
+    default: column.cdf ?? undefined,
+    options,
+    formula: column.colOptions?.formula_raw ?? column.formula_raw ?? undefined,
+    meta: column.meta && Object.keys(column.meta).length > 0 ? column.meta : undefined,
+    relation
+  };
+}
+
+/**
+ * Find a column by ID, title or column name
+ */
+export function findColumn(table: TableMeta, column: string) {
+  const lower = column.toLowerCase();
+  const found = (table.columns || []).find((c: any) =>
+    c.id === column || c.title?.toLowerCase() === lower || c.column_name?.toLowerCase() === lower
+  );
+  if (!found) {
+    const available = (table.columns || []).map((c: any) => c.title).join(", ");
+    throw new McpError(ErrorCode.InvalidParams, `Column '${column}' not found in table ${table.title}. Available columns: ${available}`);
+  }
+  return found;
+}
+
+/**
+ * Create a column from its definition. Relation columns go through the link column
+ * endpoint, with the related table resolved in the same project
+ */
+export async function createColumn(ctx: ToolContext, projectId: string, tableId: string, def: ColumnDefinition) {
+  const client = await ctx.getClient();
+  if (def.column_type === undefined || !LINK_TYPES.includes(def.column_type)) {
+    return client.createColumn(tableId, columnBody(def));
+  }
+
+  const type = def.relation_type ?? "hm";
+  if (!RELATION_TYPES.includes(type)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid relation_type '${type}' (expected ${RELATION_TYPES.join(", ")})`);
+  }
+  if (!def.related_table) {
+    throw new McpError(ErrorCode.InvalidParams, `Column '${def.column_name ?? def.title}' needs a related_table`);
+  }
+  const { table: related } = await ctx.resolveTable(projectId, def.related_table);
+  return client.createLinkColumn(tableId, {
+    title: def.title ?? def.column_name ?? related.title,
+    relatedTableId: related.id,
+    type
+  });
+}
+
+/**
+ * Create a table and its columns. If a column fails, the table is dropped again
+ */
+export async function createTableWithColumns(ctx: ToolContext, projectId: string, tableName: string, columns: ColumnDefinition[]): Promise<TableMeta> {
+  const client = await ctx.getClient();
+
+  let table: TableMeta;
+  try {
+    table = await client.createTable(projectId, {
+      table_name: tableName,
+      title: tableName
+    });
+  } catch (error: any) {
+    toolFailure("create table", error);
+  }
+
+  for (const [index, column] of columns.entries()) {
+    try {
+      await createColumn(ctx, projectId, table.id, column);
+    } catch (error: any) {
+      const reason = errorReason(error);
+      try {
+        await client.deleteTable(table.id);
+      } catch (cleanupError: any) {
+        throw new Error(
+          `Failed to create table: column #${index} (${column.column_name}) failed: ${reason}. ` +
+          `Cleanup of table ${table.id} also failed: ${cleanupError.message}`
+        );
+      }
+      throw new Error(`Failed to create table: column #${index} (${column.column_name}) failed: ${reason}. The table was rolled back.`);
+    }
+  }
+  return table;
+}
+
+/**
+ * create_table handler
+ */
+async function createTable(ctx: ToolContext, args: any): Promise<ToolResult> {
+  const { projectId, tableName, columns = [] } = args;
+  const table = await createTableWithColumns(ctx, projectId, tableName, columns);
+  return textResult(`Table '${tableName}' created successfully with ${columns.length} columns. Table ID: ${table.id}`);
+}
+
+/**
+ * Dry run of create_table: check the name and the column definitions, create nothing
+ */
+async function previewCreateTable(ctx: ToolContext, args: any): Promise<ToolResult> {
+  const { projectId, tableName, columns = [] } = args;
+  const client = await ctx.getClient();
+  const problems: string[] = [];
+
+  const tables = await client.listTables(projectId);
+  const findTable = (name: string) => {
+    const lower = name.toLowerCase();
+    return tables.find((t) => t.id === name || t.title?.toLowerCase() === lower || t.table_name?.toLowerCase() === lower);
+  };
+
+  const existing = findTable(String(tableName));
+  if (existing) {
+    problems.push(`Table '${existing.title}' already exists in the project (${existing.id})`);
+  }
+
+  const seen = new Set<string>();
+  for (const [index, column] of (columns as ColumnDefinition[]).entries()) {
+    const name = column.column_name ?? column.title;
+    const label = `Column #${index}${name ? ` (${name})` : ""}`;
+    if (!name) {
+      problems.push(`${label} has no column_name`);
+    } else if (seen.has(name.toLowerCase())) {
+      problems.push(`${label} is defined twice`);
+    } else {
+      seen.add(name.toLowerCase());
+    }
+
+    if (!column.column_type) {
+      problems.push(`${label} has no column_type`);
+    } else if (!COLUMN_TYPES.includes(column.column_type)) {
+      problems.push(`${label} has unknown column_type '${column.column_type}'`);
+    } else if (column.column_type === "Formula" && !column.formula) {
+      problems.push(`${label} is a Formula column without a formula`);
+    } else if (LINK_TYPES.includes(column.column_type)) {
+      if (column.relation_type !== undefined && !RELATION_TYPES.includes(column.relation_type)) {
+        problems.push(`${label} has invalid relation_type '${column.relation_type}' (expected ${RELATION_TYPES.join(", ")})`);
+      }
+      if (!column.related_table) {
+        problems.push(`${label} needs a related_table`);
+      } else if (!findTable(column.related_table)) {
+        problems.push(`${label} links to table '${column.related_table}', which is not in the project`);
+      }
+    }
+  }
+
+  return textResult(
+    `Dry run of create_table: table '${tableName}' with ${columns.length} column(s) ${problems.length > 0 ? "would fail" : "would be created"}, ` +
+    `${problems.length} problem(s). Nothing was written.\n` +
+    JSON.stringify({ dryRun: true, table: tableName, columns, problems }, null, 2)
+  );
+}
+
+/**
+ * Schema tools, registered by NocoDBServer
+ */
+export function schemaTools(ctx: ToolContext): ToolDefinition[] {
+  return [
+    {
+      name: "create_table",
+      description: "Create a new table in a NocoDB project, relation (LinkToAnotherRecord) columns included. Atomic: if a column cannot be created, the table is removed again",
+      access: "write",
+      changesSchema: true,
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          projectId: {
+            type: "string",
+            description: "Project ID or title"
+          },
+          tableName: {
+            type: "string",
+            description: "Table name"
+          },
+          columns: {
+            type: "array",
+            description: "Column definitions",
+            items: {
+              type: "object",
+              properties: COLUMN_DEFINITION_PROPERTIES,
+              required: ["column_name", "column_type"]
+            }
+          },
+          ...DRY_RUN_PROPERTY
+        },
+        required: ["projectId", "tableName", "columns"]
+      },
+      handler: async (args) => {
+        if (!args.dryRun) {
+          return createTable(ctx, args);
+        }
+        try {
+          return await previewCreateTable(ctx, args);
+        } catch (error: any) {
+          toolFailure("preview table creation", error);
+        }
+      }
+    },
+    {
+      name: "describe_table",
+      description: "Describe a table: its columns with type (uidt), constraints, options, defaults and relations",
+      access: "read",
+      inputSchema: {
+        type: "object",
+        properties: TABLE_PROPERTIES,
+        required: ["projectId", "tableName"]
+      },
+      handler: async (args) => {
+        try {
+          const { table } = await ctx.resolveTable(args.projectId, args.tableName);
+          return textResult(JSON.stringify({
+            id: table.id,
+            title: table.title,
+            table_name: table.table_name,
+            columns: (table.columns || []).map(describeColumn)
+          }, null, 2));
+        } catch (error: any) {
+          toolFailure("describe table", error);
+        }
+      }
+    },
+    {
+      name: "add_column",
+      description: "Add a column to a table",
+      access: "write",
+      changesSchema: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          column: {
+            type: "object",
+            description: "Column definition",
+            properties: COLUMN_DEFINITION_PROPERTIES,
+            required: ["column_name", "column_type"]
+          }
+        },
+        required: ["projectId", "tableName", "column"]
+      },
+      handler: async (args) => {
+        try {
+          const { table } = await ctx.resolveTable(args.projectId, args.tableName);
+          await createColumn(ctx, args.projectId, table.id, args.column);
+          return textResult(`Column '${args.column.column_name}' added to table ${table.title}.`);
+        } catch (error: any) {
+          toolFailure("add column", error);
+        }
+      }
+    },
+    {
+      name: "update_column",
+      description: "Change a column: rename it, change its type or its type-specific options",
+      access: "write",
+      changesSchema: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          column: {
+            type: "string",
+            description: "Column to change (title, name or ID)"
+          },
+          changes: {
+            type: "object",
+            description: "Fields to change, in the same shape as a column definition",
+            properties: COLUMN_DEFINITION_PROPERTIES
+          }
+        },
+        required: ["projectId", "tableName", "column", "changes"]
+      },
+      handler: async (args) => {
+        try {
+          const client = await ctx.getClient();
+          const { table } = await ctx.resolveTable(args.projectId, args.tableName);
+          const existing = findColumn(table, args.column);
+
+          // NocoDB expects the complete column, so the changes are applied over the current definition
+          const body = {
+            column_name: existing.column_name,
+            title: existing.title,
+            uidt: existing.uidt,
+            ...(existing.colOptions ? { colOptions: existing.colOptions } : {}),
+            ...(existing.meta ? { meta: existing.meta } : {}),
+            ...columnBody(args.changes)
+          };
+          await client.updateColumn(existing.id, body);
+          return textResult(`Column '${existing.title}' of table ${table.title} updated.`);
+        } catch (error: any) {
+          toolFailure("update column", error);
+        }
+      }
+    },
+    {
+      name: "delete_column",
+      description: "Delete a column from a table (its data is lost)",
+      access: "write",
+      changesSchema: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          column: {
+            type: "string",
+            description: "Column to delete (title, name or ID)"
+          }
+        },
+        required: ["projectId", "tableName", "column"]
+      },
+      handler: async (args) => {
+        try {
+          const client = await ctx.getClient();
+          const { table } = await ctx.resolveTable(args.projectId, args.tableName);
+          const existing = findColumn(table, args.column);
+          await client.deleteColumn(existing.id);
+          return textResult(`Column '${existing.title}' deleted from table ${table.title}.`);
+        } catch (error: any) {
+          toolFailure("delete column", error);
+        }
+      }
+    },
+    {
+      name: "rename_table",
+      description: "Rename a table",
+      access: "write",
+      changesSchema: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          newName: {
+            type: "string",
+            description: "New table name"
+          }
+        },
+        required: ["projectId", "tableName", "newName"]
+      },
+      handler: async (args) => {
+        try {
+          const client = await ctx.getClient();
+          const { table } = await ctx.resolveTable(args.projectId, args.tableName);
+          await client.updateTable(table.id, { table_name: args.newName, title: args.newName });
+          return textResult(`Table ${table.title} renamed to ${args.newName}.`);
+        } catch (error: any) {
+          toolFailure("rename table", error);
+        }
+      }
+    },
+    {
+      name: "delete_table",
+      description: "Delete a table and all its records",
+      access: "write",
+      changesSchema: true,
+      inputSchema: {
+        type: "object",
+        properties: TABLE_PROPERTIES,
+        required: ["projectId", "tableName"]
+      },
+      handler: async (args) => {
+        try {
+          const client = await ctx.getClient();
+          const { table } = await ctx.resolveTable(args.projectId, args.tableName);
+          await client.deleteTable(table.id);
+          return textResult(`Table ${table.title} deleted.`);
+        } catch (error: any) {
+          toolFailure("delete table", error);
+        }
+      }
+    }
+  ];
+}
@@ -0,0 +1,254 @@
+/**
+ * Upsert by key: idempotent writes for agents that retry
+ *
+ * Each row is looked up by its match columns. No match inserts it, one match
+ * updates it, and more than one match is reported as ambiguous (nothing written).
+ * Rows are then checked and coerced like the insert or update they become (see
+ * checkRows), so a dry run reports the same failures as the write.
+ * Key values must fit in a filter, and the records NocoDB finds are compared with
+ * them before one is overwritten: its eq may match loosely (case-insensitive
+ * collations, type casts), so every page of loose matches is read.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { rowChanges, snapshotRows } from "./audit.js";
+import {
+  BULK_OPTION_PROPERTIES,
+  bulkInsert,
+  BulkReport,
+  bulkOptions,
+  bulkReport,
+  errorCodeOf,
+  idsWithStatus,
+  mapConcurrent,
+  reportResult,
+  requireArray,
+  RowResult,
+  runBulk
+} from "./bulkTools.js";
+import { BULK_CONCURRENCY, PAGE_SIZE } from "./config.js";
+import { ColumnMeta, compileWhere, resolveColumn } from "./filters.js";
+import { NocoDBClient, primaryKeyOf, TableRef } from "./nocodbClient.js";
+import { errorReason } from "./nocodbHttp.js";
+import { fetchPage } from "./pagination.js";
+import { checkRow, DRY_RUN_PROPERTY, previewInsert, previewResult, previewUpdate, RowPreview } from "./preview.js";
+import { TABLE_PROPERTIES, ToolContext, ToolDefinition } from "./registry.js";
+
+
+type Lookup =
+  | { kind: "insert" }
+  | { kind: "update"; recordId: unknown }
+  | { kind: "failed"; error: string; code: number };
+
+/**
+ * Value of a column in an input row (keyed by title or column name)
+ */
+function valueOf(row: Record<string, unknown>, column: ColumnMeta) {
+  return row[column.title] !== undefined || !column.column_name ? row[column.title] : row[column.column_name];
+}
+
+/**
+ * Whether a stored value is a row's key value
+ */
+function sameKey(stored: unknown, value: unknown): boolean {
+  if (value === null || value === undefined || stored === null || stored === undefined) {
+    return (value === null || value === undefined) && (stored === null || stored === undefined);
+  }
+  if (typeof value === "boolean" || typeof stored === "boolean") {
+    const truthy = (v: unknown) => v === true || v === 1 || v === "1" || v === "true";
+    return truthy(stored) === truthy(value);
+  }
+  if (typeof value === "number" || typeof stored === "number") {
+    return String(value).trim() !== "" && String(stored).trim() !== "" && Number(stored) === Number(value);
+  }
+  return String(stored) === String(value);
+}
+
+/**
+ * Records of a lookup that match exactly, reading every page of loose matches
+ * until the last one or until a second exact match makes the row ambiguous
+ */
+export async function exactMatches(
+  client: NocoDBClient,
+  ref: TableRef,
+  where: string | undefined,
+  isExact: (record: any) => boolean
+): Promise<any[]> {
+  const matches: any[] = [];
+  let offset = 0;
+  while (true) {
+    const page = await fetchPage((offset, limit) => client.listRecords(ref, { where, offset, limit }), offset, PAGE_SIZE);
+    matches.push(...page.list.filter(isExact));
+    if (matches.length > 1 || !page.nextCursor) {
+      return matches;
+    }
+    offset += page.list.length;
+  }
+}
+
+/**
+ * Upsert tools, registered by NocoDBServer
+ */
+export function upsertTools(ctx: ToolContext): ToolDefinition[] {
+  return [
+    {
+      name: "upsert_records",
+      description:
+        "Insert or update records matched by one or more key columns (e.g. an email or external ID). " +
+        "Safe to retry: existing records are updated instead of duplicated. Rows whose key matches several records are reported as ambiguous",
+      access: "write",
+      supportsDryRun: true,
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...TABLE_PROPERTIES,
+          matchColumns: {
+            type: "array",
+            description: "Columns identifying a record (every row must have a value for each)",
+            items: { type: "string" }
+          },
+          records: {
+            type: "array",
+            description: "Records to upsert (column name -> value)",
+            items: { type: "object" }
+          },
+          ...BULK_OPTION_PROPERTIES,
+          ...DRY_RUN_PROPERTY
+        },
+        required: ["projectId", "tableName", "matchColumns", "records"]
+      },
+      handler: async (args) => {
+        const records: Record<string, unknown>[] = requireArray(args.records, "records");
+        const matchColumns: string[] = requireArray(args.matchColumns, "matchColumns");
+        if (matchColumns.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "matchColumns must name at least one column");
+        }
+
+        const client = await ctx.getClient();
+        const { table, ref } = await ctx.resolveTable(args.projectId, args.tableName);
+        const columns: ColumnMeta[] = table.columns || [];
+        const pk = primaryKeyOf(table);
+        const options = bulkOptions(args);
+
+        // Unknown match columns are rejected before any lookup
+        const keyColumns = matchColumns.map((column) => resolveColumn(columns, column));
+
+        const firstRowByKey = new Map<string, number>();
+        const lookups = await mapConcurrent(records, options.concurrency ?? BULK_CONCURRENCY, async (row, index): Promise<Lookup> => {
+          const values = keyColumns.map((column) => valueOf(row, column));
+          const missing = keyColumns.filter((_, i) => values[i] === undefined).map((column) => column.title);
+          if (missing.length > 0) {
+            return { kind: "failed", error: `Missing match column value(s): ${missing.join(", ")}`, code: ErrorCode.InvalidParams };
+          }
+          const nested = keyColumns.filter((_, i) => values[i] !== null && typeof values[i] === "object").map((column) => column.title);
+          if (nested.length > 0) {
+            return { kind: "failed", error: `Match column value(s) must be text, numbers or booleans: ${nested.join(", ")}`, code: ErrorCode.InvalidParams };
+          }
+
+          // Values that do not fit in a filter (see compileWhere) fail the row before any lookup
+          let where: string | undefined;
+          try {
+            where = compileWhere(
+              {
+                and: keyColumns.map(({ title: field }, i) =>
+                  values[i] === null ? { field, op: "isnull" as const } : { field, op: "eq" as const, value: values[i] }
+                )
+              },
+              columns
+            );
+          } catch (error: any) {
+            return { kind: "failed", error: errorReason(error), code: errorCodeOf(error) };
+          }
+
+          // Key of the row made of its match values, to catch duplicates inside one call
+          const key = JSON.stringify(values);
+          const first = firstRowByKey.get(key);
+          if (first !== undefined) {
+            return { kind: "failed", error: `Duplicate match key in this call (same as row ${first})`, code: ErrorCode.InvalidParams };
+          }
+          firstRowByKey.set(key, index);
+
+          try {
+            const matches = await exactMatches(client, ref, where, (record) =>
+              keyColumns.every((column, i) => sameKey(record?.[column.title], values[i]))
+            );
+            if (matches.length > 1) {
+              return { kind: "failed", error: `Ambiguous match: ${keyColumns.map((c) => c.title).join(", ")} matches more than one record`, code: ErrorCode.InvalidParams };
+            }
+            return matches.length === 1 ? { kind: "update", recordId: matches[0][pk] } : { kind: "insert" };
+          } catch (error: any) {
+            return { kind: "failed", error: errorReason(error), code: errorCodeOf(error) };
+          }
+        });
+
+        const recordIdOf = (i: number) => (lookups[i] as { recordId: unknown }).recordId;
+        const before = await snapshotRows(
+          client, table, ref, lookups.flatMap((lookup) => (lookup.kind === "update" ? [lookup.recordId] : []))
+        );
+        if (args.dryRun) {
+          return previewResult("upsert_records", table, lookups.map((lookup, index): RowPreview =>
+            lookup.kind === "failed"
+              ? { index, action: "none", changes: [], problems: [lookup.error] }
+              : lookup.kind === "insert"
+                ? previewInsert(table, records[index], index)
+                : previewUpdate(table, lookup.recordId, before.get(String(lookup.recordId)), records[index], index)
+          ));
+        }
+
+        // The same checks as the dry run: rows with problems fail, the others are written coerced
+        const results: RowResult[] = records.map((_, index) => ({ index, status: "skipped" }));
+        const values: Record<string, unknown>[] = [];
+        const toInsert: number[] = [];
+        const toUpdate: number[] = [];
+
+        lookups.forEach((lookup, index) => {
+          if (lookup.kind === "failed") {
+            results[index] = { index, status: "failed", error: lookup.error, code: lookup.code };
+            return;
+          }
+          const checked = checkRow(table, records[index], lookup.kind);
+          if (lookup.kind === "update" && !before.has(String(lookup.recordId))) {
+            checked.problems.push(`Record ${lookup.recordId} not found`);
+          }
+          if (checked.problems.length > 0) {
+            results[index] = { index, status: "failed", error: checked.problems.join("; "), code: ErrorCode.InvalidParams };
+            return;
+          }
+          values[index] = checked.values;
+          (lookup.kind === "insert" ? toInsert : toUpdate).push(index);
+        });
+
+        const stop = options.stopOnError && results.some((r) => r.status === "failed");
+        if (!stop) {
+          const inserted = await bulkInsert(client, ref, pk, toInsert.map((i) => values[i]), options);
+          inserted.results.forEach((r) => { results[toInsert[r.index]] = { ...r, index: toInsert[r.index] }; });
+
+          if (!(options.stopOnError && inserted.failed > 0)) {
+            const updated = await runBulk(
+              toUpdate.map((i) => ({ ...values[i], [pk]: recordIdOf(i) })),
+              (chunk) => client.bulkUpdateRecords(ref, chunk),
+              "updated",
+              (_, payload) => payload[pk],
+              options
+            );
+            updated.results.forEach((r) => { results[toUpdate[r.index]] = { ...r, index: toUpdate[r.index] }; });
+          }
+        }
+
+        const { total, succeeded, failed, skipped } = bulkReport(results);
+        const report: BulkReport & { created: number; updated: number } = {
+          total,
+          succeeded,
+          created: results.filter((r) => r.status === "created").length,
+          updated: results.filter((r) => r.status === "updated").length,
+          failed,
+          skipped,
+          results
+        };
+
+        const written = [...idsWithStatus(report, "created"), ...idsWithStatus(report, "updated")];
+        await ctx.audit.recordAfterWrite(ref, async () => rowChanges(written, before, await snapshotRows(client, table, ref, written)));
+        return reportResult(`Upsert (${report.created} created, ${report.updated} updated)`, report);
+      }
+    }
+  ];
+}
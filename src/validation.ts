@@ -0,0 +1,333 @@
+/**
+ * Record data checked against a table's columns before it is written
+ *
+ * Keys are matched to columns by title or column name (unknown ones come back
+ * with the closest column names), computed and relation columns are refused,
+ * required columns must have a value and select values must be options of the
+ * column. Values are coerced where that cannot lose anything: plain decimal strings
+ * to numbers (not hex, exponents or padded text), yes/no words to checkbox booleans, dates written as words ("tomorrow",
+ * "next friday", "March 3, 2024") to ISO dates, select options to their exact case.
+ *
+ * Every problem is reported at once, as a list of { field, code, message } the
+ * caller (or the model) can act on.
+ */
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { suggest } from "./metadata.js";
+import { TableMeta } from "./nocodbClient.js";
+import { LINK_TYPES } from "./schemaTools.js";
+
+// Column types NocoDB computes; they are never written
+export const COMPUTED_TYPES = [
+  "ID", "AutoNumber", "CreatedTime", "LastModifiedTime", "CreatedBy", "LastModifiedBy",
+  "Formula", "Rollup", "Lookup", "Count", "Barcode", "QrCode", "Button"
+];
+
+// A number as people write it: digits with an optional sign and decimal part
+const DECIMAL_NUMBER = /^[-+]?(\d+(\.\d+)?|\.\d+)$/;
+
+export const NUMERIC_TYPES = ["Number", "Decimal", "Currency", "Percent", "Rating", "Year", "Duration"];
+
+// Text columns: numbers and booleans written to them become strings
+const TEXT_TYPES = ["SingleLineText", "LongText", "Email", "URL", "PhoneNumber"];
+
+export const DATE = /^\d{4}-\d{2}-\d{2}$/;
+export const DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+export const BOOLEANS: Record<string, boolean> = {
+  true: true, false: false, yes: true, no: false, "1": true, "0": false, on: true, off: false
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTH_NAME = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b/;
+
+export type ValidationCode = "invalid_data" | "unknown_column" | "read_only" | "required" | "invalid_value" | "invalid_option";
+
+export interface ValidationProblem {
+  // Key of the input data (or column title for missing required columns)
+  field?: string;
+  code: ValidationCode;
+  message: string;
+  // Closest column names or select options
+  suggestions?: string[];
+  // Options of a select column
+  options?: string[];
+}
+
+/**
+ * Raised when record data does not fit the table; `data.problems` lists every problem found
+ */
+export class RecordValidationError extends McpError {
+  readonly problems: ValidationProblem[];
+
+  constructor(table: string, problems: ValidationProblem[]) {
+    super(
+      ErrorCode.InvalidParams,
+      `Invalid record for table ${table} (${problems.length} problem(s)):\n${problems.map((problem) => `- ${problem.message}`).join("\n")}`,
+      { table, problems }
+    );
+    this.name = "RecordValidationError";
+    this.problems = problems;
+  }
+}
+
+type Coerced = { value: unknown } | { error: string; options?: string[]; suggestions?: string[] };
+
+const didYouMean = (suggestions: string[]) => suggestions.length > 0 ? ` (did you mean ${suggestions.map((s) => `'${s}'`).join(" or ")}?)` : "";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function isoDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Local date and time with the server's UTC offset, e.g. 2024-03-03T15:30:00+01:00
+ */
+function isoDateTime(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset < 0 ? "-" : "+";
+  return `${isoDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+}
+
+function shift(date: Date, amount: number, unit: string): Date {
+  const shifted = new Date(date);
+  if (unit === "day") shifted.setDate(shifted.getDate() + amount);
+  if (unit === "week") shifted.setDate(shifted.getDate() + 7 * amount);
+  if (unit === "month") shifted.setMonth(shifted.getMonth() + amount);
+  if (unit === "year") shifted.setFullYear(shifted.getFullYear() + amount);
+  return shifted;
+}
+
+/**
+ * The day part of a date in words, at midnight (or the current time for "now")
+ */
+function parseDay(text: string, now: Date): Date | undefined {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const count = (word: string) => (word === "a" || word === "an" ? 1 : Number(word));
+
+  if (text === "" || text === "today") return today;
+  if (text === "now") return new Date(now);
+  if (text === "tomorrow") return shift(today, 1, "day");
+  if (text === "yesterday") return shift(today, -1, "day");
+
+  let match = text.match(/^in (\d+|an?) (day|week|month|year)s?$/);
+  if (match) return shift(today, count(match[1]), match[2]);
+  match = text.match(/^(\d+|an?) (day|week|month|year)s? ago$/);
+  if (match) return shift(today, -count(match[1]), match[2]);
+  match = text.match(/^(next|last) (week|month|year)$/);
+  if (match) return shift(today, match[1] === "next" ? 1 : -1, match[2]);
+
+  match = text.match(/^(?:(next|last|this) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+  if (match) {
+    const ahead = (WEEKDAYS.indexOf(match[2]) - today.getDay() + 7) % 7;
+    // "next friday" is never today; "last friday" is the one before today
+    const days = match[1] === "last" ? ahead - 7 || -7 : match[1] === "next" ? ahead || 7 : ahead;
+    return shift(today, days, "day");
+  }
+
+  const slashed = text.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+  if (slashed) return new Date(Number(slashed[1]), Number(slashed[2]) - 1, Number(slashed[3]));
+
+  if (MONTH_NAME.test(text)) {
+    const parsed = new Date(Date.parse(/\b\d{4}\b/.test(text) ? text : `${text} ${now.getFullYear()}`));
+    if (!Number.isNaN(parsed.getTime())) {
+      return new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A date written in words: "today", "tomorrow", "in 3 days", "2 weeks ago", "next friday",
+ * "last month", "March 3, 2024", "3 Mar", "2024/03/03", with an optional time ("at 15:30", "3pm").
+ * `time` tells whether the text gave a time of day
+ */
+export function parseNaturalDate(input: string, now = new Date()): { date: Date; time: boolean } | undefined {
+  let text = input.trim().toLowerCase().replace(/,/g, " ").replace(/\s+/g, " ");
+  let time: { hours: number; minutes: number } | undefined;
+
+  const clock = text.match(/(?:^| )(?:at )?(\d{1,2}):(\d{2})(?: ?(am|pm))?$/) || text.match(/(?:^| )(?:at )?(\d{1,2})()(?: ?(am|pm))$/);
+  if (clock) {
+    let hours = Number(clock[1]);
+    const minutes = Number(clock[2] || 0);
+    if (clock[3]) {
+      if (hours < 1 || hours > 12) return undefined;
+      hours = (hours % 12) + (clock[3] === "pm" ? 12 : 0);
+    }
+    if (hours > 23 || minutes > 59) return undefined;
+    time = { hours, minutes };
+    text = text.slice(0, clock.index).trim();
+  }
+
+  const day = parseDay(text, now);
+  if (!day) return undefined;
+  if (time) {
+    day.setHours(time.hours, time.minutes, 0, 0);
+  }
+  return { date: day, time: !!time || text === "now" };
+}
+
+function coerceDate(value: unknown, uidt: string): Coerced {
+  const invalid = { error: `${JSON.stringify(value)} is not a valid ${uidt}; use YYYY-MM-DD${uidt === "DateTime" ? " HH:mm" : ""} or words like "tomorrow" or "next friday"` };
+  if (typeof value !== "string") {
+    return invalid;
+  }
+  const raw = value.trim();
+  if ((DATE.test(raw) || DATE_TIME.test(raw)) && !Number.isNaN(Date.parse(raw))) {
+    return { value: uidt === "Date" ? raw.slice(0, 10) : raw };
+  }
+  const parsed = parseNaturalDate(raw);
+  if (!parsed) {
+    return invalid;
+  }
+  return { value: uidt === "Date" ? isoDate(parsed.date) : isoDateTime(parsed.date) };
+}
+
+/**
+ * Select option matching a value, ignoring case and surrounding spaces
+ */
+function matchOption(value: string, options: string[]): string | undefined {
+  const wanted = value.trim().toLowerCase();
+  return options.find((option) => option === value) ?? options.find((option) => option.trim().toLowerCase() === wanted);
+}
+
+function coerceSelect(value: unknown, column: any): Coerced {
+  const multiple = column.uidt === "MultiSelect";
+  if (typeof value === "object" && !(multiple && Array.isArray(value))) {
+    return { error: `${JSON.stringify(value)} is not a valid ${column.uidt}` };
+  }
+  const chosen = Array.isArray(value) ? value.map(String) : multiple ? String(value).split(",") : [String(value)];
+  const choices = chosen.map((choice) => choice.trim()).filter((choice) => choice !== "");
+  const options: string[] = (column.colOptions?.options || []).map((option: any) => option.title);
+  if (options.length === 0) {
+    return { value: multiple ? choices.join(",") : String(value) };
+  }
+
+  const matched = choices.map((choice) => matchOption(choice, options));
+  const unknown = choices.filter((_, index) => matched[index] === undefined);
+  if (unknown.length > 0) {
+    return {
+      error: `no option ${unknown.map((v) => `'${v}'`).join(", ")}`,
+      options,
+      suggestions: [...new Set(unknown.flatMap((choice) => suggest(choice, options, 1)))]
+    };
+  }
+  return { value: multiple ? matched.join(",") : matched[0] };
+}
+
+/**
+ * Value to write into a column, converted to its type where nothing is lost, or why it cannot be written
+ */
+export function coerceValue(value: unknown, column: any): Coerced {
+  const uidt: string = column.uidt ?? "";
+  if (value === null || value === undefined) {
+    return { value: null };
+  }
+  const invalid = { error: `${JSON.stringify(value)} is not a valid ${uidt}` };
+
+  if (NUMERIC_TYPES.includes(uidt)) {
+    if (typeof value === "number") {
+      return Number.isFinite(value) ? { value } : invalid;
+    }
+    if (typeof value !== "string") {
+      return invalid;
+    }
+    const raw = uidt === "Percent" ? value.replace(/%$/, "") : value;
+    if (value === "") {
+      return { value: null };
+    }
+    return DECIMAL_NUMBER.test(raw) ? { value: Number(raw) } : invalid;
+  }
+
+  switch (uidt) {
+    case "Checkbox": {
+      const flag = typeof value === "boolean" ? value : BOOLEANS[String(value).trim().toLowerCase()];
+      return flag === undefined ? invalid : { value: flag };
+    }
+    case "Date":
+    case "DateTime":
+      return typeof value === "string" && value.trim() === "" ? { value: null } : coerceDate(value, uidt);
+    case "SingleSelect":
+    case "MultiSelect":
+      return coerceSelect(value, column);
+    default:
+      if (TEXT_TYPES.includes(uidt) && typeof value !== "string") {
+        return { value: typeof value === "object" ? JSON.stringify(value) : String(value) };
+      }
+      return { value };
+  }
+}
+
+/**
+ * Check record data against the table columns and coerce its values.
+ * Returns the values keyed by column title and every problem found
+ */
+export function validateRecord(table: TableMeta, data: unknown, action: "insert" | "update") {
+  const values: Record<string, unknown> = {};
+  const problems: ValidationProblem[] = [];
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { values, problems: [{ code: "invalid_data" as const, message: "Record data must be an object (column name -> value)" }] };
+  }
+
+  const columns: any[] = table.columns || [];
+  const writable = columns.filter((c) => !c.pk && !c.system && !COMPUTED_TYPES.includes(c.uidt) && !LINK_TYPES.includes(c.uidt));
+  for (const [key, value] of Object.entries(data)) {
+    const lower = key.toLowerCase();
+    const column = columns.find((c) => c.title?.toLowerCase() === lower || c.column_name?.toLowerCase() === lower);
+    if (!column) {
+      const suggestions = suggest(key, writable.map((c) => c.title));
+      problems.push({
+        field: key,
+        code: "unknown_column",
+        message: `Unknown column '${key}'${didYouMean(suggestions)}`,
+        ...(suggestions.length > 0 ? { suggestions } : {})
+      });
+      continue;
+    }
+    if (column.pk) {
+      if (action === "update") {
+        problems.push({ field: key, code: "read_only", message: `Primary key '${column.title}' cannot be changed` });
+      }
+      values[column.title] = value;
+      continue;
+    }
+    if (column.system || COMPUTED_TYPES.includes(column.uidt)) {
+      problems.push({ field: key, code: "read_only", message: `Column '${column.title}' is computed by NocoDB and cannot be written` });
+      continue;
+    }
+    if (LINK_TYPES.includes(column.uidt)) {
+      problems.push({ field: key, code: "read_only", message: `Relation column '${column.title}' is changed with link_records/unlink_records` });
+      continue;
+    }
+
+    const coerced = coerceValue(value, column);
+    if ("error" in coerced) {
+      const { error, options, suggestions } = coerced;
+      problems.push({
+        field: key,
+        code: options ? "invalid_option" : "invalid_value",
+        message: options
+          ? `Column '${column.title}' has ${error}${didYouMean(suggestions || [])}; options: ${options.join(", ")}`
+          : `Column '${column.title}': ${error}`,
+        ...(suggestions?.length ? { suggestions } : {}),
+        ...(options ? { options } : {})
+      });
+      values[column.title] = value;
+      continue;
+    }
+    values[column.title] = coerced.value;
+    if (action === "update" && coerced.value === null && column.rqd) {
+      problems.push({ field: key, code: "required", message: `Required column '${column.title}' cannot be emptied` });
+    }
+  }
+
+  if (action === "insert") {
+    for (const column of writable) {
+      const provided = column.title in values && values[column.title] !== null;
+      if (column.rqd && (column.cdf === null || column.cdf === undefined) && !provided) {
+        problems.push({ field: column.title, code: "required", message: `Required column '${column.title}' has no value` });
+      }
+    }
+  }
+  return { values, problems };
+}
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { aggregateRequest, aggregateTable } from "../src/aggregate.js";
+import type { NocoDBClient, TableRef } from "../src/nocodbClient.js";
+import { NocoDBError } from "../src/nocodbHttp.js";
+
+const columns = [
+  { id: "c1", title: "Id", column_name: "id", uidt: "ID", pk: true },
+  { id: "c2", title: "Region", column_name: "region", uidt: "SingleLineText" },
+  { id: "c3", title: "Status", column_name: "status", uidt: "SingleSelect" },
+  { id: "c4", title: "Amount", column_name: "amount", uidt: "Decimal" },
+  { id: "c5", title: "Customer", column_name: "customer", uidt: "SingleLineText" }
+];
+const ref = { baseId: "p1", tableId: "t1" } as unknown as TableRef;
+
+const orders = [
+  { Id: 1, Region: "North", Status: "Open", Amount: 0.1, Customer: "Ana" },
+  { Id: 2, Region: "North", Status: "Open", Amount: 0.2, Customer: "Bo" },
+  { Id: 3, Region: "North", Status: "Closed", Amount: 5, Customer: "Ana" },
+  { Id: 4, Region: "South", Status: "Open", Amount: null, Customer: "Cy" },
+  { Id: 5, Region: "South", Status: "Open", Amount: "7.5", Customer: "Cy" },
+  { Id: 6, Region: null, Status: "Closed", Amount: 1, Customer: "Di" }
+];
+
+// A client with only the list endpoint, paging through `orders` in pages of 2 rows
+function listClient() {
+  const client = {
+    fields: [] as (string | undefined)[],
+    listRecords: async (_ref: TableRef, params: { fields?: string; offset?: number; limit?: number }) => {
+      client.fields.push(params.fields);
+      const offset = params.offset ?? 0;
+      const list = orders.slice(offset, offset + Math.min(params.limit ?? 25, 2));
+      return { list, pageInfo: { totalRows: orders.length, isLastPage: offset + list.length >= orders.length } };
+    }
+  };
+  return client;
+}
+
+function aggregate(client: object, args: Record<string, unknown>) {
+  return aggregateTable(client as unknown as NocoDBClient, ref, aggregateRequest(args, columns, {}));
+}
+
+describe("aggregateTable", () => {
+  it("groups the rows read by several columns and computes each aggregate per group", async () => {
+    const client = listClient();
+    const result = await aggregate(client, {
+      groupBy: ["Region", "Status"],
+      aggregates: [{ op: "count" }, { op: "sum", field: "Amount" }, { op: "avg", field: "Amount", as: "average" }, { op: "count_distinct", field: "Customer" }]
+    });
+
+    assert.equal(result.source, "rows");
+    assert.equal(result.rowsRead, 6);
+    assert.deepEqual(result.columns, ["Region", "Status", "count", "sum_Amount", "average", "count_distinct_Customer"]);
+    assert.deepEqual(result.rows, [
+      [null, "Closed", 1, 1, 1, 1],
+      ["North", "Closed", 1, 5, 5, 1],
+      ["North", "Open", 2, 0.3, 0.15, 2],
+      ["South", "Open", 2, 7.5, 7.5, 1]
+    ]);
+    assert.deepEqual(client.fields[0]!.split(",").sort(), ["Amount", "Customer", "Region", "Status"]);
+  });
+
+  it("sorts the groups by an aggregate and keeps the first `limit`", async () => {
+    const result = await aggregate(listClient(), {
+      groupBy: ["Region"],
+      aggregates: [{ op: "max", field: "Amount", as: "top" }],
+      sort: "-top",
+      limit: 2
+    });
+    assert.deepEqual(result.rows, [["South", "7.5"], ["North", 5]]);
+    assert.equal(result.groups, 3);
+  });
+
+  it("lets NocoDB count the rows per value of one column", async () => {
+    const client = {
+      listRecords: async () => assert.fail("rows should not be read"),
+      groupBy: async (_ref: TableRef, column: string) => ({
+        list: [{ [column]: "Open", count: "4" }, { [column]: "Closed", count: 2 }],
+        pageInfo: { isLastPage: true }
+      })
+    };
+    const result = await aggregate(client, { groupBy: ["Status"] });
+    assert.equal(result.source, "nocodb");
+    assert.deepEqual(result.rows, [["Closed", 2], ["Open", 4]]);
+  });
+
+  it("reads the rows when NocoDB has no group-by endpoint", async () => {
+    const client = {
+      ...listClient(),
+      groupBy: async () => {
+        throw new NocoDBError(ErrorCode.InvalidParams, { status: 404, msg: "Not found" });
+      }
+    };
+    const result = await aggregate(client, { groupBy: ["Status"] });
+    assert.equal(result.source, "rows");
+    assert.deepEqual(result.rows, [["Closed", 2], ["Open", 4]]);
+  });
+
+  it("refuses aggregates it cannot compute", () => {
+    assert.throws(() => aggregateRequest({ aggregates: [{ op: "sum", field: "Customer" }] }, columns, {}), /needs a numeric column/);
+    assert.throws(() => aggregateRequest({ aggregates: [{ op: "median", field: "Amount" }] }, columns, {}), /Unknown aggregate/);
+    assert.throws(() => aggregateRequest({ groupBy: ["Region"], aggregates: [{ op: "count", as: "Region" }] }, columns, {}), /appears twice/);
+    assert.throws(() => aggregateRequest({ sort: "-total" }, columns, {}), /Cannot sort by 'total'/);
+  });
+});
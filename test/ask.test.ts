@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NaturalQueryClient } from "../src/ask.js";
+import type { NocoDBServer } from "../src/index.js";
+import { StubProvider } from "../src/llm.js";
+import type { ToolDefinition, ToolResult } from "../src/registry.js";
+
+function tool(name: string, access: "read" | "write" = "read"): ToolDefinition {
+  return { name, description: name, access, inputSchema: { type: "object", properties: {} }, handler: async () => ({ content: [] }) };
+}
+
+// A server whose tools answer with their name and arguments, recording every call
+function fakeServer(fail: string[] = []) {
+  const tools = new Map([tool("list_projects"), tool("list_tables"), tool("query_table"), tool("insert_record", "write")].map((t) => [t.name, t]));
+  const server = {
+    calls: [] as { name: string; args: any }[],
+    tools,
+    describeTools: () => [...tools.values()].map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+    resolveTarget: async (args: any) => args,
+    checkAccess: async () => undefined,
+    callTool: async (name: string, args: any): Promise<ToolResult> => {
+      server.calls.push({ name, args });
+      if (fail.includes(name)) {
+        throw new Error(`${name} is down`);
+      }
+      return { content: [{ type: "text", text: `${name} ${JSON.stringify(args)}` }] };
+    }
+  };
+  return server;
+}
+
+function ask(server: ReturnType<typeof fakeServer>) {
+  return new NaturalQueryClient(server as unknown as NocoDBServer, new StubProvider());
+}
+
+describe("NaturalQueryClient with the stub provider", () => {
+  it("runs the tools the question names, in order, and answers from their results", async () => {
+    const server = fakeServer();
+    const result = await ask(server).processNaturalQuery('list_tables {"projectId": "p1"} then query_table {"projectId": "p1", "tableName": "Orders"}');
+
+    assert.deepEqual(server.calls.map((call) => call.name), ["list_tables", "query_table"]);
+    assert.deepEqual(server.calls[1].args, { projectId: "p1", tableName: "Orders" });
+    assert.equal(result.provider, "stub");
+    assert.equal(result.stepLimitReached, false);
+    assert.deepEqual(result.toolCalls.map((call) => call.ok), [true, true]);
+    assert.match(result.answer, /^Ran 2 tool call\(s\):\n1\. list_tables: list_tables \{"projectId":"p1"\}/);
+  });
+
+  it("lists the projects when the question names no tool", async () => {
+    const server = fakeServer();
+    const result = await ask(server).processNaturalQuery("What is in here?");
+    assert.deepEqual(server.calls.map((call) => call.name), ["list_projects"]);
+    assert.match(result.answer, /list_projects/);
+  });
+
+  it("offers only read tools to read-only questions", async () => {
+    const server = fakeServer();
+    await ask(server).processNaturalQuery('insert_record {"data": {}}', { readOnly: true });
+    assert.deepEqual(server.calls.map((call) => call.name), ["list_projects"]);
+  });
+
+  it("reports failing tools back to the model instead of throwing", async () => {
+    const server = fakeServer(["list_tables"]);
+    const result = await ask(server).processNaturalQuery("list_tables then list_projects");
+    assert.deepEqual(result.toolCalls.map((call) => [call.tool, call.ok]), [["list_tables", false], ["list_projects", true]]);
+    assert.equal(result.toolCalls[0].result, "Error: list_tables is down");
+  });
+
+  it("stops calling tools at the step limit and still answers", async () => {
+    const server = fakeServer();
+    const result = await ask(server).processNaturalQuery("list_projects then list_tables then query_table", { maxSteps: 2 });
+    assert.deepEqual(server.calls.map((call) => call.name), ["list_projects", "list_tables"]);
+    assert.equal(result.stepLimitReached, true);
+    assert.match(result.answer, /^Ran 2 tool call\(s\)/);
+  });
+
+  it("passes the connection to calls that name none", async () => {
+    const server = fakeServer();
+    await ask(server).processNaturalQuery('list_tables {"projectId": "p1"}', { connection: "staging" });
+    assert.deepEqual(server.calls[0].args, { projectId: "p1", connection: "staging" });
+  });
+});
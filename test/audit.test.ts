@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { AuditLog } from "../src/audit.js";
+import type { ToolDefinition } from "../src/registry.js";
+
+const ref = { baseId: "p1", tableId: "t1", title: "Orders" };
+const caller = { transport: "command" as const };
+
+function tool(name: string, access: "read" | "write" = "write"): ToolDefinition {
+  return { name, description: name, access, inputSchema: { type: "object", properties: {} }, handler: async () => ({ content: [] }) };
+}
+
+function auditLog() {
+  return new AuditLog(path.join(fs.mkdtempSync(path.join(os.tmpdir(), "audit-")), "audit.jsonl"));
+}
+
+describe("AuditLog", () => {
+  it("records the rows a write reads back", async () => {
+    const audit = auditLog();
+    await audit.track(tool("insert_record"), { data: {} }, caller, async () => {
+      await audit.recordAfterWrite(ref, async () => [{ recordId: "1", before: null, after: { Id: 1 } }]);
+      return { content: [{ type: "text", text: "ok" }] };
+    });
+
+    const [entry] = await audit.entries();
+    assert.equal(entry.status, "ok");
+    assert.deepEqual(entry.table, ref);
+    assert.deepEqual(entry.changes, [{ recordId: "1", before: null, after: { Id: 1 } }]);
+    assert.equal(entry.snapshotError, undefined);
+  });
+
+  it("keeps a write that succeeded when its rows cannot be read back", async () => {
+    const audit = auditLog();
+    const result = await audit.track(tool("insert_record"), { data: {} }, caller, async () => {
+      await audit.recordAfterWrite(ref, async () => {
+        throw new Error("socket hang up");
+      });
+      return { content: [{ type: "text", text: "Record inserted" }] };
+    });
+
+    assert.equal(result.content[0].text, "Record inserted");
+    const [entry] = await audit.entries();
+    assert.equal(entry.status, "ok");
+    assert.equal(entry.snapshotError, "socket hang up");
+    assert.deepEqual(entry.changes, []);
+  });
+
+  it("does not read rows back outside a logged write", async () => {
+    const audit = auditLog();
+    let reads = 0;
+    await audit.track(tool("query_table", "read"), {}, caller, async () => {
+      await audit.recordAfterWrite(ref, async () => {
+        reads++;
+        return [];
+      });
+      return { content: [] };
+    });
+    assert.equal(reads, 0);
+    assert.deepEqual(await audit.entries(), []);
+  });
+});
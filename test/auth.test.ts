@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ApiKey, checkScope, checkTarget, isToolVisible } from "../src/auth.js";
+import type { MetadataResolver } from "../src/metadata.js";
+import type { ToolDefinition } from "../src/registry.js";
+import { relatedTables } from "../src/relationTools.js";
+
+function tool(name: string, access: "read" | "write" = "read"): ToolDefinition {
+  return { name, description: name, access, inputSchema: { type: "object" }, handler: async () => ({ content: [] }) };
+}
+
+const query = tool("query_table");
+const insert = tool("insert_record", "write");
+
+describe("checkScope", () => {
+  it("allows everything for a key without limits", () => {
+    const key: ApiKey = { name: "all", key: "k" };
+    assert.equal(checkScope(key, insert, { projectId: "p1", tableName: "Orders" }), undefined);
+  });
+
+  it("limits the tools a key may use", () => {
+    const key: ApiKey = { name: "k", key: "k", tools: ["query_table"] };
+    assert.equal(checkScope(key, query, {}), undefined);
+    assert.match(checkScope(key, insert, {})!, /may not use tool insert_record/);
+    assert.equal(checkScope({ ...key, tools: ["*"] }, insert, {}), undefined);
+  });
+
+  it("refuses write tools to read-only keys", () => {
+    const key: ApiKey = { name: "k", key: "k", readOnly: true };
+    assert.equal(checkScope(key, query, {}), undefined);
+    assert.match(checkScope(key, insert, {})!, /read-only/);
+  });
+
+  it("checks the project and the table", () => {
+    const key: ApiKey = { name: "k", key: "k", projects: ["p1"], tables: ["Orders"] };
+    assert.equal(checkScope(key, query, { projectId: "p1", tableName: "Orders" }), undefined);
+    assert.match(checkScope(key, query, { projectId: "p2", tableName: "Orders" })!, /project p2/);
+    assert.match(checkScope(key, query, { projectId: "p1", tableName: "Customers" })!, /table Customers/);
+  });
+
+  it("refuses a table whose project is unknown to a key limited to some projects", () => {
+    const key: ApiKey = { name: "k", key: "k", projects: ["p1"] };
+    assert.match(checkScope(key, query, { tableName: "Orders" })!, /project is unknown/);
+    assert.equal(checkScope(key, tool("list_projects"), {}), undefined);
+  });
+
+  it("checks the tables reached through relations", () => {
+    const key: ApiKey = { name: "k", key: "k", projects: ["p1"], tables: ["Orders", "Customers"] };
+    const target = { projectId: "p1", tableName: "Orders" };
+    assert.equal(checkScope(key, query, target, [{ projectId: "p1", tableName: "Customers" }]), undefined);
+    assert.match(checkScope(key, query, target, [{ projectId: "p1", tableName: "Invoices" }])!, /table Invoices/);
+    assert.match(checkScope(key, query, target, [{ projectId: "p2", tableName: "Customers" }])!, /project p2/);
+  });
+
+  it("lists tools regardless of project and table limits", () => {
+    const key: ApiKey = { name: "k", key: "k", projects: ["p1"], tables: ["Orders"], readOnly: true };
+    assert.equal(isToolVisible(key, query), true);
+    assert.equal(isToolVisible(key, insert), false);
+  });
+});
+
+describe("checkTarget", () => {
+  it("allows a project without a table to a key limited to tables", () => {
+    const key: ApiKey = { name: "k", key: "k", tables: ["Orders"] };
+    assert.equal(checkTarget(key, { projectId: "p1" }), undefined);
+    assert.match(checkTarget(key, { projectId: "p1", tableName: "Customers" })!, /table Customers/);
+  });
+});
+
+describe("relatedTables", () => {
+  const link = (id: string, title: string, related: string) =>
+    ({ id, title, column_name: title.toLowerCase(), uidt: "Links", colOptions: { type: "hm", fk_related_model_id: related } });
+  const tables: Record<string, any> = {
+    t_orders: { id: "t_orders", title: "Orders", base_id: "p1", columns: [{ id: "c1", title: "Id", pk: true }, link("c2", "Customer", "t_customers")] },
+    t_customers: { id: "t_customers", title: "Customers", base_id: "p1", columns: [link("c3", "Region", "t_regions")] },
+    t_regions: { id: "t_regions", title: "Regions", base_id: "p1", columns: [] }
+  };
+  const metadata = {
+    getTable: async (id: string) => {
+      if (!tables[id]) throw new Error(`no table ${id}`);
+      return tables[id];
+    },
+    resolveTable: async (_project: string, name: string) => {
+      const table = Object.values(tables).find((t) => t.title === name);
+      if (!table) throw new Error(`no table ${name}`);
+      return { table, ref: { baseId: "p1", tableId: table.id, title: table.title } };
+    }
+  } as unknown as MetadataResolver;
+  const ref = { baseId: "p1", tableId: "t_orders", title: "Orders" };
+
+  it("finds the related table of a relation column", async () => {
+    assert.deepEqual(await relatedTables(metadata, tables.t_orders, ref, { column: "customer" }), [{ projectId: "p1", tableName: "Customers" }]);
+    assert.deepEqual(await relatedTables(metadata, tables.t_orders, ref, { column: "Id" }), []);
+  });
+
+  it("follows expand level by level", async () => {
+    assert.deepEqual(
+      (await relatedTables(metadata, tables.t_orders, ref, { expand: 1 })).map((t) => t.tableName),
+      ["Customers"]
+    );
+    assert.deepEqual(
+      (await relatedTables(metadata, tables.t_orders, ref, { expand: 2 })).map((t) => t.tableName),
+      ["Customers", "Regions"]
+    );
+  });
+
+  it("names tables it cannot read by ID and resolves relatedTable", async () => {
+    const broken = { ...tables.t_orders, columns: [link("c9", "Lost", "t_missing")] };
+    assert.deepEqual(await relatedTables(metadata, broken, ref, { expand: 1 }), [{ projectId: "p1", tableName: "t_missing" }]);
+    assert.deepEqual(await relatedTables(metadata, tables.t_orders, ref, { relatedTable: "Regions" }), [{ projectId: "p1", tableName: "Regions" }]);
+  });
+});
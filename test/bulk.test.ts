@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { checkRows, reportResult, runBulk, writeChecked } from "../src/bulkTools.js";
+import type { TableMeta } from "../src/nocodbClient.js";
+import { NocoDBError } from "../src/nocodbHttp.js";
+
+const table = {
+  id: "t1",
+  title: "Tasks",
+  columns: [
+    { title: "Id", column_name: "id", uidt: "ID", pk: true },
+    { title: "Name", column_name: "name", uidt: "SingleLineText" },
+    { title: "Done", column_name: "done", uidt: "Checkbox" }
+  ]
+} as unknown as TableMeta;
+
+// A bulk endpoint that stores what it is sent and answers with IDs
+function fakeInsert() {
+  const sent: Record<string, unknown>[] = [];
+  const write = async (chunk: Record<string, unknown>[]) => {
+    sent.push(...chunk);
+    return chunk.map((_, i) => ({ Id: sent.length - chunk.length + i + 1 }));
+  };
+  return { sent, write };
+}
+
+describe("checkRows", () => {
+  it("coerces the valid rows and fails the others with their dry run messages", () => {
+    const checked = checkRows(table, [{ Name: "y", Done: "yes", Bogus: 1 }, { name: "z", done: "no" }], "insert");
+    assert.deepEqual(checked.results[0], { index: 0, status: "failed", error: "Unknown column 'Bogus'", code: ErrorCode.InvalidParams });
+    assert.deepEqual(checked.indexes, [1]);
+    assert.deepEqual(checked.values, [{ Name: "z", Done: false }]);
+  });
+
+  it("adds the problems found besides the data", () => {
+    const checked = checkRows(table, [{ Name: "a" }, { Name: "b" }], "update", (index) => (index === 1 ? ["Record 9 not found"] : []));
+    assert.equal(checked.results[1].error, "Record 9 not found");
+    assert.deepEqual(checked.indexes, [0]);
+  });
+});
+
+describe("writeChecked", () => {
+  it("only sends the accepted rows, coerced, and reports every row by its index", async () => {
+    const { sent, write } = fakeInsert();
+    const report = await writeChecked(
+      checkRows(table, [{ Name: "y", Done: "yes", Bogus: 1 }, { Name: "z", Done: "yes" }], "insert"),
+      (values) => runBulk(values, write, "created", (answer) => answer.Id)
+    );
+    assert.deepEqual(sent, [{ Name: "z", Done: true }]);
+    assert.deepEqual(report.results.map((r) => [r.index, r.status]), [[0, "failed"], [1, "created"]]);
+    assert.equal(report.succeeded, 1);
+    assert.equal(report.failed, 1);
+  });
+
+  it("writes nothing with stopOnError when a row was rejected", async () => {
+    const { sent, write } = fakeInsert();
+    const report = await writeChecked(
+      checkRows(table, [{ Name: "ok" }, { Done: "maybe" }], "insert"),
+      (values) => runBulk(values, write, "created", (answer) => answer.Id),
+      { stopOnError: true }
+    );
+    assert.deepEqual(sent, []);
+    assert.deepEqual(report.results.map((r) => r.status), ["skipped", "failed"]);
+  });
+});
+
+describe("runBulk", () => {
+  const rows = [{ Name: "a" }, { Name: "FAIL" }, { Name: "c" }];
+
+  it("retries a chunk NocoDB rejected as invalid row by row", async () => {
+    const requests: number[] = [];
+    const report = await runBulk(rows, async (chunk) => {
+      requests.push(chunk.length);
+      if (chunk.some((row) => row.Name === "FAIL")) {
+        throw new NocoDBError(ErrorCode.InvalidParams, { status: 400, msg: "Invalid value" });
+      }
+      return chunk.map(() => ({ Id: 1 }));
+    }, "created", (answer) => answer.Id, { chunkSize: 3 });
+
+    assert.deepEqual(requests, [3, 1, 1, 1]);
+    assert.deepEqual(report.results.map((r) => r.status), ["created", "failed", "created"]);
+    assert.equal(report.results[1].error, "Invalid value");
+    assert.equal(report.succeeded, 2);
+  });
+
+  it("does not send again a chunk that may have been written", async () => {
+    for (const error of [new NocoDBError(ErrorCode.InternalError, { status: 502, msg: "Bad gateway" }), new Error("timeout of 30000ms exceeded")]) {
+      let requests = 0;
+      const report = await runBulk(rows, async () => {
+        requests++;
+        throw error;
+      }, "created", () => undefined, { chunkSize: 3 });
+
+      assert.equal(requests, 1);
+      assert.equal(report.failed, 3);
+      assert.match(report.results[0].error!, /may have been written anyway/);
+    }
+  });
+
+  it("fails a chunk NocoDB refused otherwise as a whole, without the warning", async () => {
+    let requests = 0;
+    const report = await runBulk(rows, async () => {
+      requests++;
+      throw new NocoDBError(ErrorCode.InvalidRequest, { status: 403, msg: "Forbidden" });
+    }, "created", () => undefined, { chunkSize: 3 });
+
+    assert.equal(requests, 1);
+    assert.deepEqual(report.results.map((r) => r.error), Array(3).fill("Forbidden"));
+  });
+});
+
+describe("reportResult", () => {
+  it("is an InvalidParams error when every row was rejected as given", async () => {
+    const { write } = fakeInsert();
+    const report = await writeChecked(checkRows(table, [{ Bogus: 1 }], "insert"), (values) => runBulk(values, write, "created", (answer) => answer.Id));
+    const result = reportResult("Bulk insert", report);
+    assert.equal(result.isError, true);
+    assert.equal(result.errorCode, ErrorCode.InvalidParams);
+  });
+
+  it("is an InternalError when the writes failed", async () => {
+    const report = await runBulk([{ Name: "a" }], async () => { throw new Error("socket hang up"); }, "created", () => undefined);
+    assert.equal(reportResult("Bulk insert", report).errorCode, ErrorCode.InternalError);
+    assert.equal(reportResult("Bulk insert", { total: 0, succeeded: 0, failed: 0, skipped: 0, results: [] }).isError, undefined);
+  });
+});
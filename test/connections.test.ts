@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type { AxiosInstance } from "axios";
+import { Connection } from "../src/connections.js";
+import { detectApiVersion } from "../src/nocodbClient.js";
+import { NocoDBError } from "../src/nocodbHttp.js";
+
+// An HTTP client whose GET answers with the next outcome: "ok" or an HTTP status to fail with
+function fakeHttp(outcomes: (number | "ok")[]) {
+  return {
+    get: async () => {
+      const outcome = outcomes.shift();
+      if (outcome === "ok") {
+        return { data: { list: [] } };
+      }
+      throw new NocoDBError(ErrorCode.InternalError, { status: outcome, msg: outcome === undefined ? "connect ECONNREFUSED" : `status ${outcome}` });
+    }
+  } as unknown as AxiosInstance;
+}
+
+describe("detectApiVersion", () => {
+  it("is v2 when the v2 meta endpoints answer", async () => {
+    assert.equal(await detectApiVersion(fakeHttp(["ok"])), "v2");
+  });
+
+  it("is v1 when they do not exist", async () => {
+    assert.equal(await detectApiVersion(fakeHttp([404])), "v1");
+    assert.equal(await detectApiVersion(fakeHttp([405])), "v1");
+  });
+
+  it("fails on network and auth errors", async () => {
+    await assert.rejects(detectApiVersion(fakeHttp([])), /ECONNREFUSED/);
+    await assert.rejects(detectApiVersion(fakeHttp([401])), /status 401/);
+    await assert.rejects(detectApiVersion(fakeHttp([500])), /status 500/);
+  });
+});
+
+describe("Connection", () => {
+  it("detects the version again after a failed detection", async () => {
+    const connection = new Connection({ name: "test", url: "http://nocodb.invalid" });
+    (connection as any).http = fakeHttp([503, 404]);
+
+    await assert.rejects(connection.getClient(), /status 503/);
+    assert.equal((await connection.getClient()).version, "v1");
+  });
+
+  it("keeps the detected client", async () => {
+    const connection = new Connection({ name: "test", url: "http://nocodb.invalid" });
+    (connection as any).http = fakeHttp(["ok"]);
+
+    const client = await connection.getClient();
+    assert.equal(client.version, "v2");
+    assert.equal(await connection.getClient(), client);
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { exportRequest, runExport } from "../src/export.js";
+import type { NocoDBClient, TableMeta, TableRef } from "../src/nocodbClient.js";
+
+const rows = Array.from({ length: 250 }, (_, i) => ({ Id: i + 1, Name: `Row ${i + 1}` }));
+const table = { id: "t1", title: "Rows", columns: [{ title: "Id" }, { title: "Name" }] } as unknown as TableMeta;
+const ref = { baseId: "p1", tableId: "t1" } as unknown as TableRef;
+
+// A client whose listRecords pages through `rows`, counting the rows it reads
+function fakeClient() {
+  const client = {
+    read: 0,
+    listRecords: async (_ref: TableRef, params: { offset: number; limit: number }) => {
+      const list = rows.slice(params.offset, params.offset + params.limit);
+      client.read += list.length;
+      return { list, pageInfo: { totalRows: rows.length, isLastPage: params.offset + list.length >= rows.length } };
+    }
+  };
+  return client;
+}
+
+async function exportText(request: ReturnType<typeof exportRequest>, client = fakeClient()) {
+  const chunks: Buffer[] = [];
+  const summary = await runExport(client as unknown as NocoDBClient, table, ref, request, (chunk) => {
+    chunks.push(chunk);
+  });
+  return { summary, text: Buffer.concat(chunks).toString("utf-8"), read: client.read };
+}
+
+describe("exportRequest", () => {
+  it("fills in the defaults and checks the limit", () => {
+    assert.deepEqual(exportRequest({}, {}), { format: "csv", encoding: "utf-8", delimiter: ",", escapeFormulas: true, params: {} });
+    assert.equal(exportRequest({ limit: 10 }, {}).limit, 10);
+    assert.throws(() => exportRequest({ limit: 0 }, {}), /positive integer/);
+    assert.throws(() => exportRequest({ format: "xml" }, {}), /Invalid export format/);
+    assert.throws(() => exportRequest({ escapeFormulas: "no" }, {}), /escapeFormulas must be a boolean/);
+  });
+});
+
+describe("runExport", () => {
+  it("exports every row without a limit", async () => {
+    const { summary, text } = await exportText(exportRequest({ format: "ndjson" }, {}));
+    assert.equal(summary.rows, 250);
+    assert.equal(summary.truncated, false);
+    assert.equal(text.trim().split("\n").length, 250);
+  });
+
+  it("stops at the limit without reading further rows", async () => {
+    const { summary, text, read } = await exportText(exportRequest({ limit: 120 }, {}));
+    assert.equal(summary.rows, 120);
+    assert.equal(summary.truncated, true);
+    assert.equal(read, 120);
+    assert.equal(text.trim().split("\r\n").length, 121);
+  });
+
+  it("heads projected columns with their titles", async () => {
+    const priced = { ...table, columns: [...table.columns!, { title: "Price (USD)", column_name: "price_usd" }] } as unknown as TableMeta;
+    const chunks: Buffer[] = [];
+    const client = { listRecords: async () => ({ list: [{ Id: 1, "Price (USD)": 5 }], pageInfo: { isLastPage: true } }) };
+    await runExport(client as unknown as NocoDBClient, priced, ref, exportRequest({}, { fields: "Id,price_usd" }), (chunk) => {
+      chunks.push(chunk);
+    });
+    assert.equal(Buffer.concat(chunks).toString("utf-8"), "Id,Price (USD)\r\n1,5\r\n");
+  });
+
+  it("quotes CSV text cells a spreadsheet would run as formulas", async () => {
+    const cells = ["=HYPERLINK(\"http://x\")", "+1", "-2", "@SUM(A1)", "plain"];
+    const client = { listRecords: async () => ({ list: cells.map((Name, i) => ({ Id: -i, Name })), pageInfo: { isLastPage: true } }) };
+    const csv = async (escapeFormulas?: boolean) => {
+      const chunks: Buffer[] = [];
+      await runExport(client as unknown as NocoDBClient, table, ref, exportRequest({ escapeFormulas }, {}), (chunk) => {
+        chunks.push(chunk);
+      });
+      return Buffer.concat(chunks).toString("utf-8").trim().split("\r\n").slice(1);
+    };
+
+    assert.deepEqual(await csv(), ["0,\"'=HYPERLINK(\"\"http://x\"\")\"", "-1,'+1", "-2,'-2", "-3,'@SUM(A1)", "-4,plain"]);
+    assert.equal((await csv(false))[1], "-1,+1");
+  });
+
+  it("is not truncated when the limit covers every row", async () => {
+    const { summary } = await exportText(exportRequest({ format: "json", limit: 500 }, {}));
+    assert.equal(summary.rows, 250);
+    assert.equal(summary.truncated, false);
+  });
+});
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ColumnMeta, compileFields, compileQuery, compileSort, compileWhere } from "../src/filters.js";
+
+const columns: ColumnMeta[] = [
+  { title: "Id", column_name: "id", uidt: "ID" },
+  { title: "Name", column_name: "name", uidt: "SingleLineText" },
+  { title: "Status", column_name: "status", uidt: "SingleSelect" },
+  { title: "Amount", column_name: "amount", uidt: "Number" },
+  { title: "Due", column_name: "due_date", uidt: "Date" },
+  { title: "Price (USD)", column_name: "price_usd", uidt: "Currency" },
+  { title: "Tags, old", column_name: "tags,old", uidt: "SingleLineText" }
+];
+
+describe("compileWhere", () => {
+  it("compiles conditions with the column title", () => {
+    assert.equal(compileWhere({ field: "name", op: "eq", value: "Ana" }, columns), "(Name,eq,Ana)");
+    assert.equal(compileWhere({ field: "Amount", op: "gte", value: 10 }, columns), "(Amount,ge,10)");
+    assert.equal(compileWhere({ field: "Name", op: "isnull" }, columns), "(Name,is,null)");
+    assert.equal(compileWhere({ field: "Name", op: "notnull" }, columns), "(Name,isnot,null)");
+    assert.equal(compileWhere({ field: "Status", op: "in", value: ["Open", "Won"] }, columns), "(Status,in,Open,Won)");
+    assert.equal(compileWhere({ field: "Amount", op: "between", value: [1, 5] }, columns), "(Amount,btw,1,5)");
+  });
+
+  it("compares dates through the exactDate sub-operator", () => {
+    assert.equal(compileWhere({ field: "due_date", op: "lt", value: "2024-03-01" }, columns), "(Due,lt,exactDate,2024-03-01)");
+  });
+
+  it("nests and/or groups", () => {
+    assert.equal(
+      compileWhere({
+        and: [
+          { field: "Status", op: "eq", value: "Open" },
+          { or: [{ field: "Amount", op: "gt", value: 100 }, { field: "Name", op: "like", value: "%Ltd%" }] }
+        ]
+      }, columns),
+      "(Status,eq,Open)~and((Amount,gt,100)~or(Name,like,%Ltd%))"
+    );
+  });
+
+  it("pushes not down to the conditions", () => {
+    assert.equal(
+      compileWhere({ not: { and: [{ field: "Status", op: "eq", value: "Open" }, { field: "Amount", op: "lte", value: 5 }] } }, columns),
+      "(Status,neq,Open)~or(Amount,gt,5)"
+    );
+    assert.equal(compileWhere({ not: { field: "Status", op: "in", value: ["A", "B"] } }, columns), "(Status,neq,A)~and(Status,neq,B)");
+    assert.equal(compileWhere({ not: { field: "Amount", op: "between", value: [1, 5] } }, columns), "(Amount,lt,1)~or(Amount,gt,5)");
+    assert.equal(compileWhere({ not: { not: { field: "Name", op: "isnull" } } }, columns), "(Name,is,null)");
+  });
+
+  it("reads plain objects as equality conditions", () => {
+    assert.equal(compileWhere({ Status: "Open", Name: null }, columns), "(Status,eq,Open)~and(Name,is,null)");
+    assert.equal(compileWhere({}, columns), undefined);
+    assert.equal(compileWhere(undefined, columns), undefined);
+  });
+
+  it("rejects unknown columns, operators and malformed values", () => {
+    assert.throws(() => compileWhere({ field: "Nope", op: "eq", value: 1 }, columns), /Unknown column 'Nope'/);
+    assert.throws(() => compileWhere({ field: "Name", op: "regex", value: "x" }, columns), /Unknown operator 'regex'/);
+    assert.throws(() => compileWhere({ field: "Name", op: "eq" }, columns), /needs a value/);
+    assert.throws(() => compileWhere({ field: "Status", op: "in", value: [] }, columns), /non-empty array/);
+    assert.throws(() => compileWhere({ field: "Amount", op: "between", value: [1] }, columns), /\[min, max\]/);
+    assert.throws(() => compileWhere({ field: "Name", op: "eq", value: { a: 1 } }, columns), /Invalid filter value/);
+    assert.throws(() => compileWhere({ and: [] }, columns), /Empty 'and' group/);
+    assert.throws(() => compileWhere("Name=1", columns), McpError);
+  });
+
+  it("refuses values that would change the where clause", () => {
+    const injections = ["x)~or(Id,gt,0", "Smith, John", "a~b", "(x", "x)"];
+    for (const value of injections) {
+      for (const op of ["eq", "neq", "like", "gt"]) {
+        assert.throws(() => compileWhere({ field: "Name", op, value }, columns), /cannot contain parentheses, commas or ~/, `${op} ${value}`);
+      }
+      assert.throws(() => compileWhere({ field: "Name", op: "in", value: ["ok", value] }, columns), /cannot contain/);
+      assert.throws(() => compileWhere({ field: "Name", op: "between", value: ["a", value] }, columns), /cannot contain/);
+      assert.throws(() => compileWhere({ Name: value }, columns), /cannot contain/);
+    }
+  });
+});
+
+describe("column names with where syntax", () => {
+  it("use the column name when the title holds parentheses, commas or ~", () => {
+    assert.equal(compileWhere({ field: "Price (USD)", op: "gt", value: 1 }, columns), "(price_usd,gt,1)");
+    assert.equal(compileWhere({ "price (usd)": null }, columns), "(price_usd,is,null)");
+    assert.equal(compileSort("-Price (USD)", columns), "-price_usd");
+    assert.equal(compileFields(["Name", "Price (USD)"], columns), "Name,price_usd");
+  });
+
+  it("are refused when the column name holds them too", () => {
+    assert.throws(() => compileWhere({ field: "Tags, old", op: "eq", value: "x" }, columns), /'Tags, old' cannot be filtered, sorted or selected/);
+    assert.throws(() => compileSort([{ field: "Tags, old" }], columns), /cannot be filtered/);
+    assert.throws(() => compileFields(["Tags, old"], columns), /cannot be filtered/);
+  });
+});
+
+describe("compileSort", () => {
+  it("compiles specs and -Field strings", () => {
+    assert.equal(compileSort([{ field: "name" }, { field: "Amount", direction: "desc" }], columns), "Name,-Amount");
+    assert.equal(compileSort("-due_date", columns), "-Due");
+    assert.equal(compileSort([], columns), undefined);
+  });
+
+  it("rejects unknown columns and directions", () => {
+    assert.throws(() => compileSort([{ field: "Nope" }], columns), /Unknown column/);
+    assert.throws(() => compileSort([{ field: "Name", direction: "up" }], columns), /Invalid sort direction/);
+  });
+});
+
+describe("compileFields", () => {
+  it("projects columns by title", () => {
+    assert.equal(compileFields(["name", "Status"], columns), "Name,Status");
+    assert.equal(compileFields([], columns), undefined);
+    assert.throws(() => compileFields("Name", columns), /must be an array/);
+  });
+});
+
+describe("compileQuery", () => {
+  it("only sets the params given", () => {
+    assert.deepEqual(compileQuery({ filters: { Status: "Open" }, fields: ["Name"] }, columns), { where: "(Status,eq,Open)", fields: "Name" });
+    assert.deepEqual(compileQuery({}, columns), {});
+  });
+});
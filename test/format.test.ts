@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatOptions, formatRows } from "../src/format.js";
+import { decodeCursor, encodeCursor } from "../src/pagination.js";
+
+const rows = Array.from({ length: 40 }, (_, i) => ({ Id: i + 1, Name: `Customer ${i + 1}`, CreatedAt: "2024-01-01", UpdatedAt: "2024-01-02" }));
+const page = { list: rows, pageInfo: { totalRows: 500 }, nextCursor: encodeCursor({ offset: 140, limit: 40 }) };
+const window = { offset: 100, limit: 40 };
+
+describe("formatOptions", () => {
+  it("takes the smaller of the character and token budgets", () => {
+    assert.equal(formatOptions({ maxChars: 1000, maxTokens: 100 }).maxChars, 400);
+    assert.equal(formatOptions({ maxTokens: 1000, maxChars: 1000 }).maxChars, 1000);
+    assert.throws(() => formatOptions({ maxChars: 0 }), /maxChars must be a positive integer/);
+    assert.throws(() => formatOptions({ format: "yaml" }), /Invalid format 'yaml'/);
+  });
+});
+
+describe("formatRows", () => {
+  it("keeps every row within the budget and the cursor of the page", () => {
+    const [text] = formatRows(page, window, formatOptions({}));
+    const parsed = JSON.parse(text);
+    assert.equal(parsed.list.length, 40);
+    assert.equal(parsed.nextCursor, page.nextCursor);
+    assert.equal(parsed.omittedRows, undefined);
+  });
+
+  it("leaves out the rows over the budget with a cursor to the first of them", () => {
+    const [text] = formatRows(page, window, formatOptions({ maxChars: 1500 }));
+    assert.ok(text.length <= 1500);
+    const parsed = JSON.parse(text);
+    const kept = parsed.list.length;
+    assert.ok(kept > 0 && kept < 40);
+    assert.equal(parsed.omittedRows, 40 - kept);
+    assert.deepEqual(decodeCursor(parsed.nextCursor), { offset: 100 + kept, limit: 40 });
+  });
+
+  it("says how many rows were cut and how to continue in the text formats", () => {
+    const [table, line] = formatRows(page, window, formatOptions({ format: "csv", maxChars: 300 }));
+    const kept = table.split("\n").length - 1;
+    assert.equal(table.split("\n")[0], "Id,Name");
+    assert.equal(
+      line,
+      `${kept} row(s) of 500; ${40 - kept} more left out to stay within 300 characters; continue with cursor ${encodeCursor({ offset: 100 + kept, limit: 40 })}`
+    );
+  });
+
+  it("keeps at least one row whatever the budget", () => {
+    const [text] = formatRows(page, window, formatOptions({ format: "compact", maxChars: 1 }));
+    const parsed = JSON.parse(text);
+    assert.deepEqual(parsed.rows, [[1, "Customer 1"]]);
+    assert.equal(parsed.omittedRows, 39);
+  });
+
+  it("keeps the fields NocoDB maintains when they are asked for", () => {
+    const [text] = formatRows({ list: rows.slice(0, 1) }, window, formatOptions({ fields: ["createdat"] }));
+    assert.deepEqual(JSON.parse(text).list, [{ Id: 1, Name: "Customer 1", CreatedAt: "2024-01-01" }]);
+  });
+
+  it("summarizes every row read instead of listing them", () => {
+    const [text] = formatRows(page, window, formatOptions({ format: "summary" }));
+    assert.deepEqual(text.split("\n"), [
+      `40 row(s) of 500; continue with cursor ${page.nextCursor}`,
+      "- Id: 40 non-empty, 40 distinct, 1 to 40, sum 820",
+      "- Name: 40 non-empty, 40 distinct, e.g. Customer 1, Customer 2, Customer 3"
+    ]);
+  });
+});
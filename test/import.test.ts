@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { importTools } from "../src/importTools.js";
+import type { NocoDBClient, TableMeta, TableRef } from "../src/nocodbClient.js";
+import type { ToolContext } from "../src/registry.js";
+
+const orders = {
+  id: "t1",
+  title: "Orders",
+  table_name: "orders",
+  columns: [
+    { title: "Id", column_name: "id", uidt: "ID", pk: true },
+    { title: "Customer Name", column_name: "customer_name", uidt: "SingleLineText" },
+    { title: "Amount", column_name: "amount", uidt: "Decimal" },
+    { title: "Total", column_name: "total", uidt: "Formula" }
+  ]
+} as unknown as TableMeta;
+
+// Dry run of import_data in a project holding only the Orders table
+async function dryRun(args: Record<string, unknown>) {
+  const ctx = {
+    getClient: async () => ({ listTables: async () => [orders] }) as unknown as NocoDBClient,
+    resolveTable: async () => ({ table: orders, ref: { baseId: "p1", tableId: "t1" } as TableRef })
+  } as unknown as ToolContext;
+  const [tool] = importTools(ctx);
+  const result = await tool.handler({ projectId: "p1", dryRun: true, ...args });
+  const text = result.content[0].text!;
+  return JSON.parse(text.slice(text.indexOf("\n") + 1));
+}
+
+describe("import_data type inference", () => {
+  it("infers the column types of a new table from the values", async () => {
+    const csv = [
+      "Name;Age;Price;Joined;Seen;Active;Email;Site;Tier;Notes",
+      "Ana;31;9.5;2024-01-02;2024-01-02 10:00;yes;ana@example.com;https://ana.example;Gold;",
+      "Bo;;10;2024-02-03;2024-02-03;no;bo@example.com;https://bo.example;Gold;first",
+      "Cy;40;-2.25;2024-03-04;2024-03-04 08:30;true;cy@example.com;http://cy.example;Silver;",
+      "Di;52;3;2024-04-05;2024-04-05;false;di@example.com;https://di.example;Silver;"
+    ].join("\n");
+    const report = await dryRun({ tableName: "People", content: csv });
+
+    assert.equal(report.format, "csv");
+    assert.equal(report.tableCreated, true);
+    assert.deepEqual(Object.fromEntries(report.columns.map((c: any) => [c.column, c.uidt])), {
+      Name: "SingleLineText",
+      Age: "Number",
+      Price: "Decimal",
+      Joined: "Date",
+      Seen: "DateTime",
+      Active: "Checkbox",
+      Email: "Email",
+      Site: "URL",
+      Tier: "SingleSelect",
+      Notes: "SingleLineText"
+    });
+    assert.deepEqual(report.columns.find((c: any) => c.column === "Tier").options, ["Gold", "Silver"]);
+    assert.deepEqual(report.rows.map((row: any) => row.problems), [[], [], [], []]);
+  });
+
+  it("keeps numbers with leading zeros as text and lets columnTypes override", async () => {
+    const content = JSON.stringify([{ Zip: "01234", Code: 7 }, { Zip: "98765", Code: 8 }]);
+    const report = await dryRun({ tableName: "Places", content, columnTypes: { Code: "SingleLineText" } });
+
+    assert.equal(report.format, "json");
+    assert.deepEqual(report.columns.map((c: any) => [c.column, c.uidt]), [["Zip", "SingleLineText"], ["Code", "SingleLineText"]]);
+  });
+
+  it("reports rows whose values do not fit the column types", async () => {
+    const report = await dryRun({ tableName: "People", content: "Name,Email\nAna,ana@example.com\nBo,bo@example.com", columnTypes: { Name: "Number" } });
+    assert.deepEqual(report.rows[0].problems, ["Column 'Name': \"Ana\" is not a valid Number"]);
+  });
+});
+
+describe("import_data header mapping", () => {
+  it("maps headers onto the writable columns of an existing table", async () => {
+    const report = await dryRun({ tableName: "orders", content: "customer name,AMOUNT,Total,Extra\nAna,10.5,3,x", format: "csv" });
+
+    assert.equal(report.tableCreated, false);
+    assert.deepEqual(report.columns.map((c: any) => [c.header, c.column]), [["customer name", "Customer Name"], ["AMOUNT", "Amount"]]);
+    assert.deepEqual(report.ignoredHeaders.map((i: any) => i.reason), ["column 'Total' is not writable", "no column 'Extra' in table Orders"]);
+    assert.deepEqual(report.rows[0].problems, []);
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeCursor, encodeCursor, fetchAll, fetchPage, PageFetcher, pageWindow } from "../src/pagination.js";
+
+const rows = Array.from({ length: 25 }, (_, i) => ({ Id: i + 1 }));
+
+// A list endpoint over `rows`, answering with NocoDB's pageInfo
+const fetcher: PageFetcher = async (offset, limit) => {
+  const list = rows.slice(offset, offset + limit);
+  return { list, pageInfo: { totalRows: rows.length, isLastPage: offset + list.length >= rows.length } };
+};
+
+describe("cursors", () => {
+  it("round-trip and reject anything else", () => {
+    assert.deepEqual(decodeCursor(encodeCursor({ offset: 40, limit: 20 })), { offset: 40, limit: 20 });
+    assert.throws(() => decodeCursor("not-a-cursor"), /Invalid cursor/);
+    assert.throws(() => decodeCursor(Buffer.from(JSON.stringify({ offset: "1" })).toString("base64url")), /Invalid cursor/);
+  });
+
+  it("win over offset, and keep their limit unless one is given", () => {
+    const cursor = encodeCursor({ offset: 40, limit: 20 });
+    assert.deepEqual(pageWindow({ cursor, offset: 5 }), { offset: 40, limit: 20 });
+    assert.deepEqual(pageWindow({ cursor, limit: 10 }), { offset: 40, limit: 10 });
+    assert.deepEqual(pageWindow({ offset: 5, limit: 10 }), { offset: 5, limit: 10 });
+  });
+});
+
+describe("fetchPage", () => {
+  it("points at the next page until the last one", async () => {
+    const first = await fetchPage(fetcher, 0, 10);
+    assert.equal(first.list.length, 10);
+    assert.deepEqual(decodeCursor(first.nextCursor!), { offset: 10, limit: 10 });
+
+    const last = await fetchPage(fetcher, 20, 10);
+    assert.deepEqual(last.list.map((row) => row.Id), [21, 22, 23, 24, 25]);
+    assert.equal(last.nextCursor, undefined);
+  });
+
+  it("takes a short page as the last one without pageInfo", async () => {
+    const page = await fetchPage(async (offset, limit) => ({ list: rows.slice(offset, offset + limit) }), 20, 10);
+    assert.equal(page.nextCursor, undefined);
+  });
+});
+
+describe("fetchAll", () => {
+  it("reads every page", async () => {
+    const result = await fetchAll(fetcher, { pageSize: 10 });
+    assert.equal(result.list.length, 25);
+    assert.equal(result.totalRows, 25);
+    assert.equal(result.truncated, false);
+    assert.equal(result.nextCursor, undefined);
+  });
+
+  it("stops at the row cap and continues from there", async () => {
+    const result = await fetchAll(fetcher, { pageSize: 10, maxRows: 12 });
+    assert.deepEqual(result.list.map((row) => row.Id), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    assert.equal(result.truncated, true);
+    assert.deepEqual(decodeCursor(result.nextCursor!), { offset: 12, limit: 10 });
+  });
+
+  it("stops at the byte cap", async () => {
+    const size = Buffer.byteLength(JSON.stringify({ Id: 10 }));
+    const result = await fetchAll(fetcher, { offset: 10, pageSize: 10, maxBytes: size * 3 });
+    assert.deepEqual(result.list.map((row) => row.Id), [11, 12, 13]);
+    assert.equal(result.truncated, true);
+    assert.deepEqual(decodeCursor(result.nextCursor!), { offset: 13, limit: 10 });
+  });
+});
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PolicyEngine, PolicyViolationError } from "../src/policy.js";
+import type { ToolDefinition } from "../src/registry.js";
+
+function tool(name: string, access: "read" | "write" = "read", extra: Partial<ToolDefinition> = {}): ToolDefinition {
+  return {
+    name,
+    description: name,
+    access,
+    inputSchema: { type: "object", properties: {} },
+    handler: async () => ({ content: [] }),
+    ...extra
+  };
+}
+
+const query = tool("query_table", "read", { inputSchema: { type: "object", properties: { limit: { type: "number" } } } });
+const insert = tool("insert_record", "write", { supportsDryRun: true });
+const deleteTable = tool("delete_table", "write");
+
+describe("PolicyEngine", () => {
+  it("allows everything without a policy", () => {
+    const engine = new PolicyEngine({}, false);
+    const args = { projectId: "p1", tableName: "Orders" };
+    assert.equal(engine.isToolEnabled(insert), true);
+    assert.deepEqual(engine.enforce(insert, args), args);
+  });
+
+  it("blocks write tools on a read-only server", () => {
+    const engine = new PolicyEngine({ readOnly: true }, false);
+    assert.equal(engine.isToolEnabled(insert), false);
+    assert.equal(engine.isToolEnabled(query), true);
+    assert.throws(() => engine.enforce(insert, {}), PolicyViolationError);
+  });
+
+  it("applies the global allow and deny lists", () => {
+    const engine = new PolicyEngine({ tools: { allow: ["*"], deny: ["delete_table"] } }, false);
+    assert.equal(engine.isToolEnabled(deleteTable), false);
+    assert.throws(() => engine.enforce(deleteTable, {}), /delete_table is denied/);
+
+    const allowList = new PolicyEngine({ tools: { allow: ["query_table"] } }, false);
+    assert.equal(allowList.isToolEnabled(query), true);
+    assert.throws(() => allowList.enforce(insert, {}), /not in the allow list/);
+  });
+
+  it("applies rules to their project and table only", () => {
+    const engine = new PolicyEngine({
+      rules: [
+        { project: "p1", table: "Orders", deny: ["insert_record"] },
+        { project: "p2", readOnly: true }
+      ]
+    }, false);
+    assert.throws(() => engine.enforce(insert, { projectId: "p1", tableName: "Orders" }), /insert_record is denied for project p1, table Orders/);
+    assert.doesNotThrow(() => engine.enforce(insert, { projectId: "p1", tableName: "Customers" }));
+    assert.throws(() => engine.enforce(insert, { projectId: "p2", tableName: "Customers" }), /project p2 is read-only/);
+    assert.doesNotThrow(() => engine.enforce(query, { projectId: "p2", tableName: "Customers" }));
+    // Tools are listed even when a rule blocks them somewhere
+    assert.equal(engine.isToolEnabled(insert), true);
+  });
+
+  it("requires confirmation, except for dry runs", () => {
+    const engine = new PolicyEngine({ requireConfirmation: ["insert_record", "delete_table"] }, false);
+    assert.throws(() => engine.enforce(insert, {}), /requires confirmation/);
+    assert.doesNotThrow(() => engine.enforce(insert, { confirm: true }));
+    assert.doesNotThrow(() => engine.enforce(insert, { dryRun: true }));
+    assert.throws(() => engine.enforce(deleteTable, { dryRun: true }), /requires confirmation/);
+    assert.equal(engine.describeSchema(insert).properties?.confirm?.type, "boolean");
+    assert.equal(engine.describeSchema(query).properties?.confirm, undefined);
+  });
+
+  it("turns unconfirmed writes into dry runs by default", () => {
+    const engine = new PolicyEngine({}, true);
+    assert.deepEqual(engine.enforce(insert, { data: {} }), { data: {}, dryRun: true });
+    assert.deepEqual(engine.enforce(insert, { data: {}, confirm: true }), { data: {}, confirm: true });
+    assert.throws(() => engine.enforce(deleteTable, {}), /requires confirmation/);
+  });
+
+  it("caps the limit of tools taking one", () => {
+    const engine = new PolicyEngine({ maxRows: 100 }, false);
+    assert.equal(engine.enforce(query, {}).limit, 100);
+    assert.equal(engine.enforce(query, { limit: 500 }).limit, 100);
+    assert.equal(engine.enforce(query, { limit: 20 }).limit, 20);
+    assert.equal(engine.enforce(insert, {}).limit, undefined);
+  });
+
+  it("rejects a limit that is not a positive integer", () => {
+    const engine = new PolicyEngine({ maxRows: 100 }, false);
+    assert.equal(engine.enforce(query, { limit: "20" }).limit, 20);
+    for (const limit of ["all", 0, -5, 2.5, true, null]) {
+      assert.throws(() => engine.enforce(query, { limit }), /limit must be a positive integer/, JSON.stringify(limit));
+    }
+  });
+});
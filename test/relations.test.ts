@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { NocoDBClient, TableMeta, TableRef } from "../src/nocodbClient.js";
+import { expandFields, expandLinks } from "../src/relationTools.js";
+
+const table = {
+  id: "t1",
+  title: "Orders",
+  columns: [
+    { id: "c1", title: "Id", column_name: "id", uidt: "ID", pk: true },
+    { id: "c2", title: "Total", column_name: "total", uidt: "Decimal" },
+    { id: "c3", title: "Customer", column_name: "customer", uidt: "Links", colOptions: { type: "bt" } }
+  ]
+} as unknown as TableMeta;
+const ref = { baseId: "p1", tableId: "t1" } as unknown as TableRef;
+
+describe("expandFields", () => {
+  it("adds the primary key to a projection leaving it out", () => {
+    assert.equal(expandFields(table, "Total,Customer"), "Id,Total,Customer");
+    assert.equal(expandFields(table, "Total,Id"), "Total,Id");
+    assert.equal(expandFields(table, undefined), undefined);
+  });
+});
+
+describe("expandLinks", () => {
+  it("replaces a belongs-to relation with its linked record", async () => {
+    const client = {
+      listLinks: async (_ref: TableRef, _link: unknown, recordId: string) => ({ list: [{ Id: Number(recordId) * 10 }] })
+    };
+    const rows = await expandLinks(client as unknown as NocoDBClient, table, ref, [{ Id: 1, Customer: 1 }, { Id: 2, Customer: 1 }], 1);
+    assert.deepEqual(rows.map((row) => row.Customer), [{ Id: 10 }, { Id: 20 }]);
+  });
+
+  it("refuses a depth out of range", async () => {
+    await assert.rejects(expandLinks({} as NocoDBClient, table, ref, [], 4), /between 1 and 3/);
+  });
+});
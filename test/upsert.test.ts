@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { AuditLog } from "../src/audit.js";
+import type { NocoDBClient, TableMeta, TableRef } from "../src/nocodbClient.js";
+import type { ToolContext } from "../src/registry.js";
+import { upsertTools } from "../src/upsertTools.js";
+
+const table = {
+  id: "t1",
+  title: "Contacts",
+  columns: [
+    { title: "Id", column_name: "id", uidt: "ID", pk: true },
+    { title: "Email", column_name: "email", uidt: "Email" },
+    { title: "Name", column_name: "name", uidt: "SingleLineText" }
+  ]
+} as unknown as TableMeta;
+const ref = { baseId: "p1", tableId: "t1" } as unknown as TableRef;
+
+// A table whose eq filter ignores case, like a case-insensitive collation
+function fakeClient(rows: Record<string, any>[]) {
+  const client = {
+    rows,
+    inserted: [] as Record<string, unknown>[],
+    updated: [] as Record<string, unknown>[],
+    listRecords: async (_ref: TableRef, params: { where?: string; offset?: number; limit?: number }) => {
+      const [, field, op, value] = /^\((\w+),(eq|in),(.*)\)$/.exec(params.where ?? "")!;
+      const matched = client.rows.filter((row) =>
+        op === "eq" ? String(row[field]).toLowerCase() === value.toLowerCase() : value.split(",").includes(String(row[field]))
+      );
+      const offset = params.offset ?? 0;
+      const list = matched.slice(offset, offset + (params.limit ?? 25));
+      return { list, pageInfo: { totalRows: matched.length, isLastPage: offset + list.length >= matched.length } };
+    },
+    bulkInsertRecords: async (_ref: TableRef, chunk: Record<string, unknown>[]) => {
+      client.inserted.push(...chunk);
+      return chunk.map((_, i) => ({ Id: 1000 + client.inserted.length - chunk.length + i }));
+    },
+    bulkUpdateRecords: async (_ref: TableRef, chunk: Record<string, unknown>[]) => {
+      client.updated.push(...chunk);
+      return chunk.map((row) => ({ Id: row.Id }));
+    }
+  };
+  return client;
+}
+
+async function upsert(client: ReturnType<typeof fakeClient>, records: Record<string, unknown>[]) {
+  const ctx: ToolContext = {
+    getClient: async () => client as unknown as NocoDBClient,
+    resolveTable: async () => ({ table, ref }),
+    audit: new AuditLog(path.join(fs.mkdtempSync(path.join(os.tmpdir(), "upsert-")), "audit.jsonl"))
+  };
+  const [tool] = upsertTools(ctx);
+  const result = await tool.handler({ projectId: "p1", tableName: "Contacts", matchColumns: ["Email"], records });
+  const text = result.content[0].text!;
+  return JSON.parse(text.slice(text.indexOf("\n") + 1));
+}
+
+describe("upsert_records", () => {
+  it("updates the exact match and inserts rows without one", async () => {
+    const client = fakeClient([{ Id: 1, Email: "ana@example.com", Name: "Ana" }]);
+    const report = await upsert(client, [
+      { Email: "ana@example.com", Name: "Ana B" },
+      { Email: "bo@example.com", Name: "Bo" }
+    ]);
+
+    assert.deepEqual(report.results.map((r: any) => [r.status, r.id]), [["updated", 1], ["created", 1000]]);
+    assert.deepEqual(client.updated, [{ Email: "ana@example.com", Name: "Ana B", Id: 1 }]);
+    assert.deepEqual(client.inserted, [{ Email: "bo@example.com", Name: "Bo" }]);
+  });
+
+  it("does not update a record that only matches loosely", async () => {
+    const client = fakeClient([{ Id: 1, Email: "ANA@example.com" }]);
+    const report = await upsert(client, [{ Email: "ana@example.com" }]);
+
+    assert.equal(report.results[0].status, "created");
+    assert.deepEqual(client.updated, []);
+  });
+
+  it("finds a second exact match past many loose ones", async () => {
+    const loose = Array.from({ length: 150 }, (_, i) => ({ Id: i + 1, Email: "ANA@example.com" }));
+    const client = fakeClient([{ Id: 500, Email: "ana@example.com" }, ...loose, { Id: 501, Email: "ana@example.com" }]);
+    const report = await upsert(client, [{ Email: "ana@example.com", Name: "Ana" }]);
+
+    assert.equal(report.results[0].status, "failed");
+    assert.match(report.results[0].error, /Ambiguous match/);
+    assert.deepEqual(client.updated, []);
+  });
+
+  it("fails duplicate keys in one call and rows missing a key", async () => {
+    const client = fakeClient([]);
+    const report = await upsert(client, [{ Email: "a@example.com" }, { Email: "a@example.com" }, { Name: "No key" }]);
+
+    assert.deepEqual(report.results.map((r: any) => r.status), ["created", "failed", "failed"]);
+    assert.match(report.results[1].error, /Duplicate match key/);
+    assert.match(report.results[2].error, /Missing match column/);
+  });
+});
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { suggest } from "../src/metadata.js";
+import type { TableMeta } from "../src/nocodbClient.js";
+import { coerceValue, parseNaturalDate, RecordValidationError, validateRecord } from "../src/validation.js";
+
+const table = {
+  id: "t1",
+  title: "Orders",
+  columns: [
+    { title: "Id", column_name: "id", uidt: "ID", pk: true },
+    { title: "Customer Name", column_name: "customer_name", uidt: "SingleLineText", rqd: true },
+    { title: "Amount", column_name: "amount", uidt: "Decimal" },
+    { title: "Paid", column_name: "paid", uidt: "Checkbox" },
+    { title: "Status", column_name: "status", uidt: "SingleSelect", colOptions: { options: [{ title: "Open" }, { title: "Closed" }] } },
+    { title: "Due", column_name: "due", uidt: "Date" },
+    { title: "Total", column_name: "total", uidt: "Formula" },
+    { title: "Customer", column_name: "customer", uidt: "Links" }
+  ]
+} as unknown as TableMeta;
+
+describe("coerceValue", () => {
+  it("reads plain decimal strings as numbers", () => {
+    assert.deepEqual(coerceValue("42", { uidt: "Number" }), { value: 42 });
+    assert.deepEqual(coerceValue("-3.5", { uidt: "Decimal" }), { value: -3.5 });
+    assert.deepEqual(coerceValue("12.5%", { uidt: "Percent" }), { value: 12.5 });
+    assert.deepEqual(coerceValue(7, { uidt: "Currency" }), { value: 7 });
+    assert.deepEqual(coerceValue("", { uidt: "Number" }), { value: null });
+  });
+
+  it("refuses anything else written to a number column", () => {
+    for (const value of ["0x10", "1e3", " ", " 12", "12 ", "1,000", "Infinity", "NaN", "12abc"]) {
+      assert.ok("error" in coerceValue(value, { uidt: "Number" }), JSON.stringify(value));
+    }
+    assert.ok("error" in coerceValue(Number.NaN, { uidt: "Number" }));
+    assert.ok("error" in coerceValue(true, { uidt: "Number" }));
+  });
+
+  it("reads yes/no words as checkbox booleans", () => {
+    assert.deepEqual(coerceValue("Yes", { uidt: "Checkbox" }), { value: true });
+    assert.deepEqual(coerceValue("0", { uidt: "Checkbox" }), { value: false });
+    assert.ok("error" in coerceValue("maybe", { uidt: "Checkbox" }));
+  });
+
+  it("matches select options ignoring case and suggests close ones", () => {
+    const status = table.columns![4];
+    assert.deepEqual(coerceValue("open", status), { value: "Open" });
+    const missed = coerceValue("Closd", status);
+    assert.ok("error" in missed);
+    assert.deepEqual(missed.suggestions, ["Closed"]);
+    assert.deepEqual(missed.options, ["Open", "Closed"]);
+  });
+
+  it("writes numbers and booleans to text columns as strings", () => {
+    assert.deepEqual(coerceValue(12, { uidt: "SingleLineText" }), { value: "12" });
+  });
+});
+
+describe("parseNaturalDate", () => {
+  // Wednesday 6 March 2024, 10:00 local time
+  const now = new Date(2024, 2, 6, 10, 0);
+  const day = (text: string) => {
+    const parsed = parseNaturalDate(text, now);
+    return parsed && [parsed.date.getFullYear(), parsed.date.getMonth() + 1, parsed.date.getDate()];
+  };
+
+  it("reads relative days and weekdays", () => {
+    assert.deepEqual(day("tomorrow"), [2024, 3, 7]);
+    assert.deepEqual(day("in 2 weeks"), [2024, 3, 20]);
+    assert.deepEqual(day("3 days ago"), [2024, 3, 3]);
+    assert.deepEqual(day("next friday"), [2024, 3, 8]);
+    assert.deepEqual(day("next wednesday"), [2024, 3, 13]);
+    assert.deepEqual(day("last wednesday"), [2024, 2, 28]);
+  });
+
+  it("reads written dates and times of day", () => {
+    assert.deepEqual(day("March 3, 2024"), [2024, 3, 3]);
+    assert.deepEqual(day("2024/03/03"), [2024, 3, 3]);
+    const parsed = parseNaturalDate("tomorrow at 3pm", now)!;
+    assert.equal(parsed.time, true);
+    assert.equal(parsed.date.getHours(), 15);
+    assert.equal(parseNaturalDate("someday", now), undefined);
+    assert.equal(parseNaturalDate("tomorrow at 25:00", now), undefined);
+  });
+});
+
+describe("validateRecord", () => {
+  it("coerces values and keys them by column title", () => {
+    const { values, problems } = validateRecord(table, { customer_name: "Ana", amount: "10.5", Paid: "yes", due: "2024-03-01" }, "insert");
+    assert.deepEqual(problems, []);
+    assert.deepEqual(values, { "Customer Name": "Ana", Amount: 10.5, Paid: true, Due: "2024-03-01" });
+  });
+
+  it("reports every problem at once", () => {
+    const { problems } = validateRecord(table, { Amout: "1e3", Total: 5, Customer: [1], Status: "Pending", Id: 3 }, "update");
+    assert.deepEqual(problems.map((problem) => [problem.field, problem.code]), [
+      ["Amout", "unknown_column"],
+      ["Total", "read_only"],
+      ["Customer", "read_only"],
+      ["Status", "invalid_option"],
+      ["Id", "read_only"]
+    ]);
+    assert.deepEqual(problems[0].suggestions, ["Amount"]);
+  });
+
+  it("requires required columns on insert only", () => {
+    assert.deepEqual(validateRecord(table, { Amount: 1 }, "insert").problems.map((problem) => problem.code), ["required"]);
+    assert.deepEqual(validateRecord(table, { Amount: 1 }, "update").problems, []);
+    assert.deepEqual(validateRecord(table, { "Customer Name": "" }, "update").problems.map((problem) => problem.code), []);
+    assert.deepEqual(validateRecord(table, { "Customer Name": null }, "update").problems.map((problem) => problem.code), ["required"]);
+  });
+
+  it("refuses data that is not an object", () => {
+    assert.deepEqual(validateRecord(table, [1], "insert").problems.map((problem) => problem.code), ["invalid_data"]);
+  });
+
+  it("carries the problems on RecordValidationError", () => {
+    const { problems } = validateRecord(table, { Nope: 1 }, "update");
+    const error = new RecordValidationError("Orders", problems);
+    assert.equal(error.problems, problems);
+    assert.match(error.message, /Unknown column 'Nope'/);
+  });
+});
+
+describe("suggest", () => {
+  it("ignores case, spaces and punctuation", () => {
+    assert.deepEqual(suggest("customername", ["Customer Name", "Amount"]), ["Customer Name"]);
+    assert.deepEqual(suggest("due_dte", ["Due Date", "Status"]), ["Due Date"]);
+  });
+
+  it("does not suggest everything for short or unrelated keys", () => {
+    assert.deepEqual(suggest("x", ["Id", "Ab"]), []);
+    assert.deepEqual(suggest("Warehouse", ["Amount", "Status"]), []);
+  });
+});